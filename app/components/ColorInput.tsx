@@ -0,0 +1,62 @@
+// ================================================================
+// ------------------------- COLOR INPUT --------------------------
+// ================================================================
+
+import { parseHexColor, toHexColor } from "~/core/color";
+
+interface ColorInputProps {
+    id?: string;
+    value: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+}
+
+export function ColorInput({ id, value, onChange, disabled = false }: ColorInputProps) {
+    // Invalid text keeps the last picker state visible while typing
+    const color = parseHexColor(value) ?? [0, 0, 0, 255];
+    const alpha = Math.round((color[3] / 255) * 100);
+
+    const handlePickerChange = (hex: string) => {
+        const picked = parseHexColor(hex);
+        if (picked) onChange(toHexColor([picked[0], picked[1], picked[2], color[3]]));
+    };
+
+    const handleAlphaChange = (percent: number) => {
+        onChange(toHexColor([color[0], color[1], color[2], Math.round((percent / 100) * 255)]));
+    };
+
+    return (
+        <div className="color-input">
+            <span className="color-input__swatch" style={{ backgroundColor: toHexColor(color) }}>
+                <input
+                    type="color"
+                    className="color-input__picker"
+                    value={toHexColor([color[0], color[1], color[2], 255])}
+                    onChange={(e) => handlePickerChange(e.target.value)}
+                    disabled={disabled}
+                />
+            </span>
+            <input
+                type="text"
+                id={id}
+                className="color-input__hex"
+                value={value}
+                spellCheck={false}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={disabled}
+            />
+            <input
+                type="range"
+                className="color-input__alpha"
+                min={0}
+                max={100}
+                step={1}
+                value={alpha}
+                title={`Opacity ${alpha}%`}
+                onChange={(e) => handleAlphaChange(Number(e.target.value))}
+                disabled={disabled}
+            />
+            <span className="color-input__alpha-value">{alpha}%</span>
+        </div>
+    );
+}
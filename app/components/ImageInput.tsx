@@ -0,0 +1,47 @@
+// ================================================================
+// ------------------------- IMAGE INPUT --------------------------
+// ================================================================
+
+import { useRef } from "react";
+
+interface ImageInputProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+}
+
+export function ImageInput({ id, value, onChange, disabled = false }: ImageInputProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        // Stored as a data URL so it survives in presets and settings
+        const reader = new FileReader();
+        reader.onload = (event) => onChange(event.target?.result as string);
+        reader.readAsDataURL(file);
+
+        // Allow picking the same file again after removing it
+        e.target.value = "";
+    };
+
+    return (
+        <div className="image-input">
+            <input ref={fileInputRef} type="file" id={id} accept="image/*" onChange={handleFileUpload} className="image-input__file" disabled={disabled} />
+
+            {value && <img src={value} alt="" className="image-input__thumbnail" />}
+
+            <button type="button" className="btn btn--secondary btn--sm" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+                {value ? "Replace" : "Choose Image"}
+            </button>
+
+            {value && (
+                <button type="button" className="btn btn--text btn--sm" onClick={() => onChange("")} disabled={disabled}>
+                    Remove
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,172 @@
+// ================================================================
+// ----------------------- KEYFRAME EDITOR ------------------------
+// ================================================================
+
+import type { SettingDefinition } from "~/core/base-processor";
+import {
+    createTrack,
+    EASING_OPTIONS,
+    getAnimatableSettings,
+    sampleTrack,
+    sortKeyframes,
+    type Easing,
+    type Keyframe,
+    type KeyframeTrack,
+} from "~/core/keyframes";
+
+interface KeyframeEditorProps {
+    definitions: SettingDefinition[];
+    settings: Record<string, unknown>;
+    tracks: KeyframeTrack[];
+    onChange: (tracks: KeyframeTrack[]) => void;
+    /** Position shown in the live preview (0-1) */
+    previewProgress: number;
+    onPreviewProgressChange: (progress: number) => void;
+}
+
+export function KeyframeEditor({ definitions, settings, tracks, onChange, previewProgress, onPreviewProgressChange }: KeyframeEditorProps) {
+    const animatable = getAnimatableSettings(definitions);
+    const available = animatable.filter((setting) => !tracks.some((track) => track.settingId === setting.id));
+
+    const updateKeyframes = (settingId: string, keyframes: Keyframe[]) => {
+        onChange(tracks.map((track) => (track.settingId === settingId ? { ...track, keyframes: sortKeyframes(keyframes) } : track)));
+    };
+
+    const addTrack = (settingId: string) => {
+        const setting = animatable.find(({ id }) => id === settingId);
+        if (setting) onChange([...tracks, createTrack(setting, settings[setting.id])]);
+    };
+
+    if (animatable.length === 0) {
+        return <p className="keyframe-editor__empty">This effect has no sliders to animate.</p>;
+    }
+
+    return (
+        <div className="keyframe-editor">
+            {tracks.length === 0 && (
+                <p className="keyframe-editor__empty">Animate a slider over the frames of videos, GIFs and swept stills.</p>
+            )}
+
+            {tracks.map((track) => {
+                const setting = animatable.find(({ id }) => id === track.settingId);
+                if (!setting) return null;
+
+                return (
+                    <div key={track.settingId} className="keyframe-track">
+                        <div className="keyframe-track__header">
+                            <span className="keyframe-track__title">{setting.label}</span>
+                            <button
+                                type="button"
+                                className="keyframe-track__action"
+                                onClick={() =>
+                                    updateKeyframes(track.settingId, [
+                                        ...track.keyframes,
+                                        { time: previewProgress, value: sampleTrack(track, previewProgress), easing: "linear" },
+                                    ])
+                                }
+                                title="Add a keyframe at the preview position"
+                            >
+                                + Key
+                            </button>
+                            <button
+                                type="button"
+                                className="keyframe-track__action keyframe-track__action--remove"
+                                onClick={() => onChange(tracks.filter((entry) => entry.settingId !== track.settingId))}
+                                title="Stop animating"
+                            >
+                                ✕
+                            </button>
+                        </div>
+
+                        {track.keyframes.map((keyframe, index) => {
+                            const update = (changes: Partial<Keyframe>) =>
+                                updateKeyframes(
+                                    track.settingId,
+                                    track.keyframes.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+                                );
+
+                            return (
+                                <div key={index} className="keyframe-track__row">
+                                    <input
+                                        type="number"
+                                        className="setting-item__number"
+                                        min={0}
+                                        max={100}
+                                        step={1}
+                                        value={Math.round(keyframe.time * 100)}
+                                        onChange={(e) => update({ time: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                                        title="Position (%)"
+                                    />
+                                    <span className="keyframe-track__unit">%</span>
+                                    <input
+                                        type="number"
+                                        className="setting-item__number"
+                                        min={setting.min}
+                                        max={setting.max}
+                                        step={setting.step}
+                                        value={keyframe.value}
+                                        onChange={(e) => update({ value: Number(e.target.value) })}
+                                        title={setting.label}
+                                    />
+                                    <select
+                                        className="setting-item__select keyframe-track__easing"
+                                        value={keyframe.easing}
+                                        onChange={(e) => update({ easing: e.target.value as Easing })}
+                                        disabled={index === track.keyframes.length - 1}
+                                        title="Curve to the next keyframe"
+                                    >
+                                        {EASING_OPTIONS.map((option) => (
+                                            <option key={option.value} value={option.value}>
+                                                {option.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        type="button"
+                                        className="keyframe-track__action keyframe-track__action--remove"
+                                        onClick={() => updateKeyframes(track.settingId, track.keyframes.filter((_, i) => i !== index))}
+                                        disabled={track.keyframes.length <= 1}
+                                        title="Remove keyframe"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+
+            {available.length > 0 && (
+                <select className="setting-item__select" value="" onChange={(e) => addTrack(e.target.value)}>
+                    <option value="" disabled>Animate setting…</option>
+                    {available.map((setting) => (
+                        <option key={setting.id} value={setting.id}>
+                            {setting.label}
+                        </option>
+                    ))}
+                </select>
+            )}
+
+            {tracks.length > 0 && (
+                <div className="setting-item">
+                    <label className="setting-item__label" htmlFor="keyframe-preview">
+                        Preview position
+                    </label>
+                    <div className="setting-item__range">
+                        <input
+                            type="range"
+                            id="keyframe-preview"
+                            min={0}
+                            max={100}
+                            step={1}
+                            value={Math.round(previewProgress * 100)}
+                            onChange={(e) => onPreviewProgressChange(Number(e.target.value) / 100)}
+                        />
+                        <span className="keyframe-track__unit">{Math.round(previewProgress * 100)}%</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
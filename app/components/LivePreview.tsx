@@ -2,9 +2,10 @@
 // ------------------------- LIVE PREVIEW -------------------------
 // ================================================================
 
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { getActiveProfileSettings } from "~/utils/db";
-import { applyBaseSettings, getDefaultBaseSettings, type BaseProcessImage, type BaseSettings } from "~/core/base-processor";
+import { getDefaultBaseSettings, type BaseProcessImage, type BaseSettings } from "~/core/base-processor";
+import { createProcessingPool, fromFrameData, toFrameData, type WorkerPool } from "~/core/worker-pool";
 
 interface LivePreviewProps {
     processor: BaseProcessImage | null;
@@ -12,15 +13,85 @@ interface LivePreviewProps {
     baseSettings?: BaseSettings | null;
     showOriginal?: boolean;
     previewUrl?: string;
+    /** Compare modes, zoom and panning (off for the hover preview on the home page) */
+    controls?: boolean;
 }
 
-export function LivePreview({ processor, settings, baseSettings, showOriginal = false, previewUrl }: LivePreviewProps) {
+type CompareMode = "result" | "split" | "side-by-side";
+
+/* Image position inside a pane: scale, then offset in CSS pixels */
+interface ViewTransform {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+    { value: "result", label: "Result" },
+    { value: "split", label: "Split" },
+    { value: "side-by-side", label: "Side by side" },
+];
+const MAX_SCALE = 32;
+/* Quiet time after the last setting change before rendering */
+const RENDER_DEBOUNCE_MS = 120;
+/* Longest side of the quick proxy render shown before the full one */
+const PROXY_MAX_SIZE = 320;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+function toDataUrl(imageData: ImageData): string | null {
+    const canvas = document.createElement("canvas");
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL("image/png");
+}
+
+/* Whole image visible and centered, never enlarged (natural size until the pane is measured) */
+function fitTransform(pane: Size, image: Size): ViewTransform {
+    const scale = Math.min(1, pane.width / image.width, pane.height / image.height) || 1;
+    return {
+        scale,
+        x: (pane.width - image.width * scale) / 2,
+        y: (pane.height - image.height * scale) / 2,
+    };
+}
+
+export function LivePreview({ processor, settings, baseSettings, showOriginal = false, previewUrl, controls = false }: LivePreviewProps) {
     const [originalImage, setOriginalImage] = useState<ImageData | null>(null);
     const [processedDataUrl, setProcessedDataUrl] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [isLoadingImage, setIsLoadingImage] = useState(true);
     const [originalDataUrl, setOriginalDataUrl] = useState<string | null>(null);
+    const [processedSize, setProcessedSize] = useState<Size | null>(null);
+    // Smoothly downscaled copy for the proxy pass, null for small images
+    const [proxyImage, setProxyImage] = useState<ImageData | null>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const poolRef = useRef<WorkerPool | null>(null);
+
+    // Renders run in a worker of their own, so a superseded one can be stopped mid-way
+    useEffect(() => {
+        return () => {
+            poolRef.current?.terminate();
+            poolRef.current = null;
+        };
+    }, []);
+
+    /* COMPARE AND ZOOM */
+    const [compareMode, setCompareMode] = useState<CompareMode>("result");
+    const [split, setSplit] = useState(0.5);
+    const [frameSize, setFrameSize] = useState<Size>({ width: 0, height: 0 });
+    // null follows the fitted view, so resizing the page keeps the image fitted
+    const [view, setView] = useState<ViewTransform | null>(null);
+    const frameRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
 
     // Get the preview URL (from prop or settings)
     const getPreviewUrl = () => {
@@ -49,6 +120,19 @@ export function LivePreview({ processor, settings, baseSettings, showOriginal =
 
                     ctx.drawImage(img, 0, 0);
                     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+                    const proxyScale = PROXY_MAX_SIZE / Math.max(img.width, img.height);
+                    if (proxyScale < 1) {
+                        const proxy = document.createElement("canvas");
+                        proxy.width = Math.max(1, Math.round(img.width * proxyScale));
+                        proxy.height = Math.max(1, Math.round(img.height * proxyScale));
+                        const proxyCtx = proxy.getContext("2d");
+                        proxyCtx?.drawImage(img, 0, 0, proxy.width, proxy.height);
+                        setProxyImage(proxyCtx?.getImageData(0, 0, proxy.width, proxy.height) ?? null);
+                    } else {
+                        setProxyImage(null);
+                    }
+
                     setOriginalImage(imageData);
                     setOriginalDataUrl(canvas.toDataURL("image/png"));
                     setIsLoadingImage(false);
@@ -71,53 +155,239 @@ export function LivePreview({ processor, settings, baseSettings, showOriginal =
     // Process image when processor or settings change
     useEffect(() => {
         if (!originalImage || !processor || !settings || showOriginal) {
-            if (showOriginal && originalDataUrl) {
+            setIsProcessing(false);
+            if (showOriginal && originalDataUrl && originalImage) {
                 setProcessedDataUrl(originalDataUrl);
+                setProcessedSize({ width: originalImage.width, height: originalImage.height });
             }
             return;
         }
 
+        // Cleanup runs on the next change: it drops a pending render and aborts a running one,
+        // whose busy worker the pool replaces so the new render does not wait for it
+        const controller = new AbortController();
+        const { signal } = controller;
+        const currentBaseSettings = baseSettings || getDefaultBaseSettings();
+        const pool = (poolRef.current ??= createProcessingPool(1));
+
+        /* Processes `source` in the worker; `scale` maps its output back to full-size units */
+        const renderPass = async (source: ImageData, passSettings: Record<string, unknown>, scale: number) => {
+            // Copy, the buffer is transferred to the worker
+            const frame = toFrameData(new ImageData(source.data.slice(), source.width, source.height));
+            const result = await pool.run(
+                { type: "frame", processorId: processor.config.id, settings: passSettings, baseSettings: currentBaseSettings, frame },
+                { signal }
+            );
+            if (signal.aborted) return;
+
+            const rendered = fromFrameData(result.frame);
+            const dataUrl = toDataUrl(rendered);
+            if (!dataUrl) return;
+
+            setProcessedDataUrl(dataUrl);
+            setProcessedSize({ width: Math.round(rendered.width / scale), height: Math.round(rendered.height / scale) });
+        };
+
         const processImage = async () => {
             setIsProcessing(true);
             try {
-                // Clone the image data to avoid modifying the original
-                const clonedData = new ImageData(
-                    new Uint8ClampedArray(originalImage.data),
-                    originalImage.width,
-                    originalImage.height
-                );
-
-                const processed = await processor.process(clonedData, settings);
-
-                // Apply base settings (opacity)
-                const currentBaseSettings = baseSettings || getDefaultBaseSettings();
-                const finalImage = applyBaseSettings(clonedData, processed, currentBaseSettings);
-
-                // Convert to data URL
-                const canvas = document.createElement("canvas");
-                canvas.width = finalImage.width;
-                canvas.height = finalImage.height;
-                const ctx = canvas.getContext("2d");
-                if (ctx) {
-                    ctx.putImageData(finalImage, 0, 0);
-                    setProcessedDataUrl(canvas.toDataURL("image/png"));
+                // Quick low-resolution pass first, shown stretched until the full one lands
+                if (proxyImage) {
+                    const scale = proxyImage.width / originalImage.width;
+                    await renderPass(proxyImage, processor.getProxySettings(settings, scale), scale);
                 }
+                // A newer render has taken over, so the full-size pass is skipped
+                if (!signal.aborted) await renderPass(originalImage, settings, 1);
             } catch (error) {
-                console.error("Failed to process preview:", error);
+                if (!signal.aborted) console.error("Failed to process preview:", error);
             } finally {
-                setIsProcessing(false);
+                if (!signal.aborted) setIsProcessing(false);
             }
         };
 
-        processImage();
-    }, [originalImage, processor, settings, baseSettings, showOriginal, originalDataUrl]);
+        // Rapid changes (slider drags) coalesce into one render
+        const timer = setTimeout(processImage, RENDER_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [originalImage, proxyImage, processor, settings, baseSettings, showOriginal, originalDataUrl]);
 
     // Show skeleton loader while loading or processing
     const showSkeleton = isLoadingImage || (isProcessing && !processedDataUrl);
 
+    // Both layers share the processed size, so they line up at any zoom
+    const contentSize = processedSize ?? (originalImage && { width: originalImage.width, height: originalImage.height });
+    const paneSize = { width: compareMode === "side-by-side" ? frameSize.width / 2 : frameSize.width, height: frameSize.height };
+    const fitted = contentSize ? fitTransform(paneSize, contentSize) : { scale: 1, x: 0, y: 0 };
+    const transform = view ?? fitted;
+
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame || !controls) return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            setFrameSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(frame);
+        return () => observer.disconnect();
+    }, [controls]);
+
+    // A new image or layout starts from the fitted view
+    useEffect(() => {
+        setView(null);
+    }, [compareMode, originalImage]);
+
+    /* Zooms by `factor`, keeping the point under (x, y) in the pane still */
+    const zoomAt = useCallback(
+        (x: number, y: number, factor: number) => {
+            setView((prev) => {
+                const current = prev ?? fitted;
+                const scale = Math.min(MAX_SCALE, Math.max(fitted.scale / 2, current.scale * factor));
+                const ratio = scale / current.scale;
+                return { scale, x: x - (x - current.x) * ratio, y: y - (y - current.y) * ratio };
+            });
+        },
+        [fitted.scale, fitted.x, fitted.y]
+    );
+
+    // React wheel listeners are passive, so page scrolling could not be stopped
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame || !controls) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            const pane = (e.target as Element).closest(".live-preview__pane");
+            if (!pane) return;
+            e.preventDefault();
+            const rect = pane.getBoundingClientRect();
+            zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
+        };
+        frame.addEventListener("wheel", handleWheel, { passive: false });
+        return () => frame.removeEventListener("wheel", handleWheel);
+    }, [controls, zoomAt]);
+
+    const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!controls || e.button !== 0) return;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        setView((prev) => {
+            const current = prev ?? fitted;
+            return { ...current, x: current.x + dx, y: current.y + dy };
+        });
+    };
+
+    const handlePanEnd = () => {
+        dragRef.current = null;
+    };
+
+    const handleSplitMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const rect = e.currentTarget.parentElement!.getBoundingClientRect();
+        setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    };
+
+    /* One pane of the compare view, `clipOriginal` overlays the original up to the split line */
+    const renderPane = (key: string, src: string, label: string | null, clipOriginal = false) => {
+        if (!contentSize) return null;
+
+        // Split line in content pixels, so the clip follows panning and zoom
+        const splitX = (split * paneSize.width - transform.x) / transform.scale;
+        const clipRight = Math.min(contentSize.width, Math.max(0, contentSize.width - splitX));
+
+        return (
+            <div key={key} className="live-preview__pane">
+                <div
+                    className={`live-preview__content ${transform.scale > 1 ? "live-preview__content--pixelated" : ""} ${isProcessing ? "live-preview__content--processing" : ""}`}
+                    style={{
+                        width: contentSize.width,
+                        height: contentSize.height,
+                        transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+                    }}
+                >
+                    <img src={src} alt={label ?? "Preview"} className="live-preview__layer" draggable={false} />
+                    {clipOriginal && originalDataUrl && (
+                        <img
+                            src={originalDataUrl}
+                            alt="Original"
+                            className="live-preview__layer"
+                            style={{ clipPath: `inset(0 ${clipRight}px 0 0)` }}
+                            draggable={false}
+                        />
+                    )}
+                </div>
+
+                {clipOriginal && (
+                    <div
+                        className="live-preview__divider"
+                        style={{ left: `${split * 100}%` }}
+                        onPointerDown={(e) => {
+                            e.stopPropagation();
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                        }}
+                        onPointerMove={handleSplitMove}
+                    >
+                        <span className="live-preview__divider-handle" />
+                    </div>
+                )}
+
+                {clipOriginal && <span className="live-preview__badge live-preview__badge--left">Original</span>}
+                {label && <span className="live-preview__badge">{label}</span>}
+            </div>
+        );
+    };
+
     return (
         <div className="live-preview">
-            <div className="live-preview__frame">
+            {controls && (
+                <div className="live-preview__toolbar">
+                    <div className="live-preview__modes">
+                        {COMPARE_MODES.map((mode) => (
+                            <button
+                                key={mode.value}
+                                type="button"
+                                className={`live-preview__mode ${compareMode === mode.value ? "live-preview__mode--active" : ""}`}
+                                onClick={() => setCompareMode(mode.value)}
+                                disabled={showOriginal}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="live-preview__zoom">
+                        <span className="live-preview__zoom-level">{Math.round(transform.scale * 100)}%</span>
+                        <button type="button" className="btn btn--text btn--sm" onClick={() => setView(null)} title="Fit to frame">
+                            Fit
+                        </button>
+                        <button
+                            type="button"
+                            className="btn btn--text btn--sm"
+                            onClick={() => zoomAt(paneSize.width / 2, paneSize.height / 2, 1 / transform.scale)}
+                            title="One image pixel per screen pixel"
+                        >
+                            1:1
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div
+                ref={frameRef}
+                className={`live-preview__frame ${controls ? "live-preview__frame--interactive" : ""}`}
+                onPointerDown={handlePanStart}
+                onPointerMove={handlePanMove}
+                onPointerUp={handlePanEnd}
+                onPointerCancel={handlePanEnd}
+                onDoubleClick={() => controls && setView(null)}
+            >
                 {/* Skeleton Loader */}
                 {showSkeleton && (
                     <div className="live-preview__skeleton">
@@ -144,11 +414,26 @@ export function LivePreview({ processor, settings, baseSettings, showOriginal =
                     </div>
                 )}
 
+                {/* Compare view with shared zoom and panning */}
+                {controls && !showSkeleton && processedDataUrl && (
+                    <div className="live-preview__panes">
+                        {showOriginal || compareMode === "result"
+                            ? renderPane("result", processedDataUrl, null)
+                            : compareMode === "split"
+                              ? renderPane("split", processedDataUrl, "Result", true)
+                              : [
+                                    originalDataUrl && renderPane("original", originalDataUrl, "Original"),
+                                    renderPane("result", processedDataUrl, "Result"),
+                                ]}
+                    </div>
+                )}
+
                 {/* Processed or Original Image */}
-                {!showSkeleton && processedDataUrl && (
+                {!controls && !showSkeleton && processedDataUrl && (
                     <img
                         src={processedDataUrl}
                         alt="Preview"
+                        width={processedSize?.width}
                         className={`live-preview__image ${isProcessing ? "live-preview__image--processing" : ""}`}
                     />
                 )}
@@ -0,0 +1,55 @@
+// ================================================================
+// ------------------------ PALETTE INPUT -------------------------
+// ================================================================
+
+import { ColorInput } from "./ColorInput";
+
+interface PaletteInputProps {
+    id: string;
+    value: unknown;
+    onChange: (value: string[]) => void;
+    disabled?: boolean;
+}
+
+/* Palettes saved before the color picker existed are a single string */
+function toColorList(value: unknown): string[] {
+    if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === "string");
+    if (typeof value === "string") return value.split(/[\s,;]+/).filter(Boolean);
+    return [];
+}
+
+export function PaletteInput({ id, value, onChange, disabled = false }: PaletteInputProps) {
+    const colors = toColorList(value);
+
+    const updateColor = (index: number, color: string) => {
+        onChange(colors.map((entry, i) => (i === index ? color : entry)));
+    };
+
+    return (
+        <div className="palette-input" id={id}>
+            {colors.map((color, index) => (
+                <div key={index} className="palette-input__entry">
+                    <ColorInput value={color} onChange={(next) => updateColor(index, next)} disabled={disabled} />
+                    <button
+                        type="button"
+                        className="palette-input__remove"
+                        onClick={() => onChange(colors.filter((_, i) => i !== index))}
+                        disabled={disabled || colors.length <= 1}
+                        title="Remove color"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                className="btn btn--secondary btn--sm palette-input__add"
+                onClick={() => onChange([...colors, colors[colors.length - 1] ?? "#000000"])}
+                disabled={disabled}
+            >
+                + Add color
+            </button>
+        </div>
+    );
+}
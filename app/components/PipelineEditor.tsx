@@ -0,0 +1,131 @@
+// ================================================================
+// ----------------------- PIPELINE EDITOR ------------------------
+// ================================================================
+
+import { useState } from "react";
+import { isSettingVisible } from "~/core/base-processor";
+import type { PipelineProcessor, PipelineStep } from "~/core/processors/pipeline";
+import { SettingField } from "./SettingField";
+
+interface PipelineEditorProps {
+    pipeline: PipelineProcessor;
+    steps: PipelineStep[];
+    onChange: (steps: PipelineStep[]) => void;
+}
+
+export function PipelineEditor({ pipeline, steps, onChange }: PipelineEditorProps) {
+    const [expandedStepId, setExpandedStepId] = useState<string | null>(null);
+
+    const updateStep = (stepId: string, updates: Partial<PipelineStep>) => {
+        onChange(steps.map((step) => (step.id === stepId ? { ...step, ...updates } : step)));
+    };
+
+    const moveStep = (index: number, offset: number) => {
+        const next = [...steps];
+        const [step] = next.splice(index, 1);
+        next.splice(index + offset, 0, step);
+        onChange(next);
+    };
+
+    const addStep = (processorId: string) => {
+        const step = pipeline.createStep(processorId);
+        if (!step) return;
+        onChange([...steps, step]);
+        setExpandedStepId(step.id);
+    };
+
+    return (
+        <div className="pipeline-editor">
+            {steps.length === 0 && <p className="pipeline-editor__empty">Add an effect to start the stack.</p>}
+
+            {steps.map((step, index) => {
+                const processor = pipeline.getProcessor(step.processorId);
+                const isExpanded = expandedStepId === step.id;
+
+                return (
+                    <div
+                        key={step.id}
+                        className={`pipeline-step ${step.enabled ? "" : "pipeline-step--disabled"} ${isExpanded ? "pipeline-step--expanded" : ""}`}
+                    >
+                        <div className="pipeline-step__header">
+                            <span className="pipeline-step__index">{index + 1}</span>
+                            <button
+                                type="button"
+                                className="pipeline-step__title"
+                                onClick={() => setExpandedStepId(isExpanded ? null : step.id)}
+                            >
+                                {processor?.config.name ?? `Unknown effect (${step.processorId})`}
+                            </button>
+                            <input
+                                type="checkbox"
+                                className="pipeline-step__toggle"
+                                checked={step.enabled}
+                                onChange={(e) => updateStep(step.id, { enabled: e.target.checked })}
+                                title={step.enabled ? "Disable step" : "Enable step"}
+                            />
+                            <button type="button" className="pipeline-step__action" onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up">
+                                ↑
+                            </button>
+                            <button type="button" className="pipeline-step__action" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} title="Move down">
+                                ↓
+                            </button>
+                            <button
+                                type="button"
+                                className="pipeline-step__action pipeline-step__action--remove"
+                                onClick={() => onChange(steps.filter((entry) => entry.id !== step.id))}
+                                title="Remove step"
+                            >
+                                ✕
+                            </button>
+                        </div>
+
+                        {isExpanded && processor && (
+                            <div className="pipeline-step__body settings-list">
+                                {processor.presets.length > 0 && (
+                                    <select
+                                        className="setting-item__select"
+                                        value=""
+                                        onChange={(e) => {
+                                            const preset = processor.getPreset(e.target.value);
+                                            if (preset) updateStep(step.id, { settings: { ...preset.settings } });
+                                        }}
+                                    >
+                                        <option value="" disabled>Apply preset…</option>
+                                        {processor.presets.map((preset) => (
+                                            <option key={preset.id} value={preset.id}>
+                                                {preset.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+
+                                {processor.settings.filter((setting, _, definitions) => isSettingVisible(setting, step.settings, definitions)).map((setting) => (
+                                    <SettingField
+                                        key={setting.id}
+                                        setting={setting}
+                                        inputId={`${step.id}-${setting.id}`}
+                                        value={step.settings[setting.id]}
+                                        onChange={(value) => updateStep(step.id, { settings: { ...step.settings, [setting.id]: value } })}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <select
+                className="setting-item__select pipeline-editor__add"
+                value=""
+                onChange={(e) => addStep(e.target.value)}
+            >
+                <option value="" disabled>+ Add effect…</option>
+                {pipeline.getStepProcessors().map((processor) => (
+                    <option key={processor.config.id} value={processor.config.id}>
+                        {processor.config.name}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
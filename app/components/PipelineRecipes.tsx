@@ -0,0 +1,78 @@
+// ================================================================
+// ----------------------- PIPELINE RECIPES -----------------------
+// ================================================================
+
+import { useState, useEffect } from "react";
+import type { BaseSettings } from "~/core/base-processor";
+import type { PipelineStep } from "~/core/processors/pipeline";
+import { recipesDb, getRecipes, saveRecipe, deleteRecipe, type Recipe } from "~/utils/db";
+
+interface PipelineRecipesProps {
+    steps: PipelineStep[];
+    baseSettings: BaseSettings;
+    onLoad: (recipe: Recipe) => void;
+}
+
+export function PipelineRecipes({ steps, baseSettings, onLoad }: PipelineRecipesProps) {
+    const [recipes, setRecipes] = useState<Recipe[]>([]);
+    const [name, setName] = useState("");
+
+    // Load from storage on the client and follow changes
+    useEffect(() => {
+        setRecipes(getRecipes());
+        return recipesDb.subscribe("change", (data) => setRecipes(data?.recipes ?? []));
+    }, []);
+
+    const handleSave = () => {
+        const trimmed = name.trim();
+        if (!trimmed || steps.length === 0) return;
+        saveRecipe(trimmed, steps, baseSettings);
+        setName("");
+    };
+
+    return (
+        <div className="pipeline-recipes">
+            {recipes.length > 0 && (
+                <div className="presets-list">
+                    {recipes.map((recipe) => (
+                        <div key={recipe.id} className="pipeline-recipes__item">
+                            <button type="button" className="preset-item" onClick={() => onLoad(recipe)}>
+                                <span className="preset-item__name">{recipe.name}</span>
+                                <span className="preset-item__description">
+                                    {recipe.steps.length} {recipe.steps.length === 1 ? "step" : "steps"}
+                                </span>
+                            </button>
+                            <button
+                                type="button"
+                                className="pipeline-recipes__delete"
+                                onClick={() => deleteRecipe(recipe.id)}
+                                title="Delete recipe"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="pipeline-recipes__save">
+                <input
+                    type="text"
+                    className="setting-item__text"
+                    value={name}
+                    placeholder="Recipe name"
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                />
+                <button
+                    type="button"
+                    className="btn btn--secondary btn--sm"
+                    onClick={handleSave}
+                    disabled={!name.trim() || steps.length === 0}
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+}
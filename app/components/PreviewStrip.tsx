@@ -0,0 +1,182 @@
+// ================================================================
+// ------------------------ PREVIEW STRIP -------------------------
+// ================================================================
+
+import { useEffect, useRef, useState } from "react";
+import { getDefaultBaseSettings, type BaseProcessImage, type BaseSettings } from "~/core/base-processor";
+import { createProcessingPool, fromFrameData, toFrameData, type WorkerPool } from "~/core/worker-pool";
+import type { UploadedFile } from "~/components/WizardUpload";
+
+interface PreviewStripProps {
+    processor: BaseProcessImage;
+    settings: Record<string, unknown>;
+    baseSettings?: BaseSettings | null;
+    /** Uploaded images, videos are left out */
+    files: UploadedFile[];
+    /** Preview URL of the file shown in the live preview, null for the profile image */
+    selected: string | null;
+    onSelect: (previewUrl: string | null) => void;
+}
+
+/* Downscaled copy of an upload, `scale` relative to the full-size file */
+interface Thumbnail {
+    imageData: ImageData;
+    scale: number;
+}
+
+/* Longest side of a thumbnail */
+const THUMBNAIL_SIZE = 160;
+/* Longer than the live preview's, the whole batch is re-rendered */
+const RENDER_DEBOUNCE_MS = 300;
+
+async function loadThumbnail(file: File): Promise<Thumbnail | null> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const thumbnail = { imageData: ctx.getImageData(0, 0, canvas.width, canvas.height), scale: canvas.width / bitmap.width };
+    bitmap.close();
+    return thumbnail;
+}
+
+function toDataUrl(imageData: ImageData): string | null {
+    const canvas = document.createElement("canvas");
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL("image/png");
+}
+
+export function PreviewStrip({ processor, settings, baseSettings, files, selected, onSelect }: PreviewStripProps) {
+    // Keyed by the upload's preview URL, which is unique while the file is in the batch
+    const [thumbnails, setThumbnails] = useState<Map<string, Thumbnail>>(new Map());
+    const [rendered, setRendered] = useState<Map<string, string>>(new Map());
+    const [isProcessing, setIsProcessing] = useState(false);
+    const poolRef = useRef<WorkerPool | null>(null);
+
+    useEffect(() => {
+        return () => {
+            poolRef.current?.terminate();
+            poolRef.current = null;
+        };
+    }, []);
+
+    // Thumbnails are decoded once per upload
+    useEffect(() => {
+        const missing = files.filter(({ preview }) => !thumbnails.has(preview));
+        if (missing.length === 0) return;
+
+        let cancelled = false;
+        const loadMissing = async () => {
+            const loaded = new Map(thumbnails);
+            for (const { file, preview } of missing) {
+                try {
+                    const thumbnail = await loadThumbnail(file);
+                    if (thumbnail) loaded.set(preview, thumbnail);
+                } catch (error) {
+                    console.error(`Failed to load thumbnail for ${file.name}:`, error);
+                }
+            }
+            // Files that failed stay missing without triggering another attempt
+            if (!cancelled && loaded.size > thumbnails.size) setThumbnails(loaded);
+        };
+
+        loadMissing();
+        return () => {
+            cancelled = true;
+        };
+    }, [files, thumbnails]);
+
+    // Same debounce and cancellation as the live preview, one file after another
+    useEffect(() => {
+        const sources = files.flatMap(({ preview }) => {
+            const thumbnail = thumbnails.get(preview);
+            return thumbnail ? [{ preview, thumbnail }] : [];
+        });
+        if (sources.length === 0) return;
+
+        const controller = new AbortController();
+        const { signal } = controller;
+        const currentBaseSettings = baseSettings || getDefaultBaseSettings();
+        const pool = (poolRef.current ??= createProcessingPool(1));
+
+        const renderAll = async () => {
+            setIsProcessing(true);
+            try {
+                for (const { preview, thumbnail } of sources) {
+                    const { imageData, scale } = thumbnail;
+                    // Copy, the buffer is transferred to the worker
+                    const frame = toFrameData(new ImageData(imageData.data.slice(), imageData.width, imageData.height));
+                    const result = await pool.run(
+                        {
+                            type: "frame",
+                            processorId: processor.config.id,
+                            settings: processor.getProxySettings(settings, scale),
+                            baseSettings: currentBaseSettings,
+                            frame,
+                        },
+                        { signal }
+                    );
+                    if (signal.aborted) return;
+
+                    const dataUrl = toDataUrl(fromFrameData(result.frame));
+                    if (dataUrl) setRendered((prev) => new Map(prev).set(preview, dataUrl));
+                }
+            } catch (error) {
+                if (!signal.aborted) console.error("Failed to render thumbnails:", error);
+            } finally {
+                if (!signal.aborted) setIsProcessing(false);
+            }
+        };
+
+        const timer = setTimeout(renderAll, RENDER_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [files, thumbnails, processor, settings, baseSettings]);
+
+    if (files.length === 0) return null;
+
+    return (
+        <div className={`preview-strip ${isProcessing ? "preview-strip--processing" : ""}`}>
+            <button
+                type="button"
+                className={`preview-strip__item preview-strip__item--sample ${selected === null ? "preview-strip__item--active" : ""}`}
+                onClick={() => onSelect(null)}
+                title="Profile preview image"
+            >
+                Sample
+            </button>
+            {files.map(({ file, preview, path }) => {
+                const src = rendered.get(preview);
+                const thumbnail = thumbnails.get(preview);
+
+                return (
+                    <button
+                        key={preview}
+                        type="button"
+                        className={`preview-strip__item ${selected === preview ? "preview-strip__item--active" : ""}`}
+                        onClick={() => onSelect(preview)}
+                        title={path ?? file.name}
+                    >
+                        {src ? (
+                            <img src={src} alt={file.name} className="preview-strip__image" />
+                        ) : (
+                            <span className="preview-strip__placeholder">{thumbnail ? "…" : file.name}</span>
+                        )}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
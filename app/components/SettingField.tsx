@@ -0,0 +1,113 @@
+// ================================================================
+// ------------------------ SETTING FIELD -------------------------
+// ================================================================
+
+import type { SettingDefinition } from "~/core/base-processor";
+import { ColorInput } from "./ColorInput";
+import { ImageInput } from "./ImageInput";
+import { PaletteInput } from "./PaletteInput";
+
+interface SettingFieldProps {
+    setting: SettingDefinition;
+    value: unknown;
+    onChange: (value: unknown) => void;
+    /** DOM id, defaults to the setting id (must be unique on the page) */
+    inputId?: string;
+    disabled?: boolean;
+    disabledHint?: string;
+}
+
+export function SettingField({ setting, value, onChange, inputId = setting.id, disabled = false, disabledHint }: SettingFieldProps) {
+    return (
+        <div className={`setting-item ${disabled ? "setting-item--disabled" : ""}`}>
+            <label className="setting-item__label" htmlFor={inputId}>
+                {setting.label}
+                {disabled && disabledHint && <span className="setting-item__disabled-hint">{disabledHint}</span>}
+            </label>
+
+            {setting.type === "range" && (
+                <div className="setting-item__range">
+                    <input
+                        type="range"
+                        id={inputId}
+                        min={setting.min}
+                        max={setting.max}
+                        step={setting.step}
+                        value={value as number}
+                        onChange={(e) => onChange(Number(e.target.value))}
+                        disabled={disabled}
+                    />
+                    <input
+                        type="number"
+                        className="setting-item__number"
+                        min={setting.min}
+                        max={setting.max}
+                        step={setting.step}
+                        value={value as number}
+                        onChange={(e) => {
+                            const val = Number(e.target.value);
+                            const min = setting.min ?? 0;
+                            const max = setting.max ?? 100;
+                            const clamped = Math.min(max, Math.max(min, val));
+                            onChange(clamped);
+                        }}
+                        disabled={disabled}
+                    />
+                </div>
+            )}
+
+            {setting.type === "select" && (
+                <select
+                    id={inputId}
+                    className="setting-item__select"
+                    value={value as string}
+                    onChange={(e) => onChange(e.target.value)}
+                    disabled={disabled}
+                >
+                    {setting.options?.map((option) => (
+                        <option key={option.value} value={option.value}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+            )}
+
+            {setting.type === "text" && (
+                <input
+                    type="text"
+                    id={inputId}
+                    className="setting-item__text"
+                    value={(value as string) ?? ""}
+                    placeholder={setting.description}
+                    onChange={(e) => onChange(e.target.value)}
+                    disabled={disabled}
+                />
+            )}
+
+            {setting.type === "color" && (
+                <ColorInput id={inputId} value={(value as string) ?? ""} onChange={onChange} disabled={disabled} />
+            )}
+
+            {setting.type === "palette" && (
+                <PaletteInput id={inputId} value={value} onChange={onChange} disabled={disabled} />
+            )}
+
+            {setting.type === "image" && (
+                <ImageInput id={inputId} value={(value as string) ?? ""} onChange={onChange} disabled={disabled} />
+            )}
+
+            {setting.type === "checkbox" && (
+                <label className="setting-item__checkbox">
+                    <input
+                        type="checkbox"
+                        id={inputId}
+                        checked={value as boolean}
+                        onChange={(e) => onChange(e.target.checked)}
+                        disabled={disabled}
+                    />
+                    <span className="setting-item__checkbox-label">{setting.description}</span>
+                </label>
+            )}
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ import {
     getActiveProfile,
     type AppSettings
 } from "~/utils/db";
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, formatFilename } from "~/utils/filename";
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -24,6 +25,8 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange }: SettingsMod
     const [enabledEffects, setEnabledEffects] = useState<Record<string, boolean>>({});
     const [previewUrl, setPreviewUrl] = useState<string>("");
     const [previewMode, setPreviewMode] = useState<"url" | "file">("url");
+    const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+    const [filenameExample, setFilenameExample] = useState("");
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Initialize from settings
@@ -33,6 +36,7 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange }: SettingsMod
 
         const profileSettings = getActiveProfileSettings();
         setPreviewUrl(profileSettings.previewImageUrl);
+        setFilenameTemplate(profileSettings.filenameTemplate);
 
         const enabled: Record<string, boolean> = {};
         processors.forEach((p) => {
@@ -43,6 +47,31 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange }: SettingsMod
         setEnabledEffects(enabled);
     }, [isOpen, processors]);
 
+    // Example output name for the template being edited
+    useEffect(() => {
+        let cancelled = false;
+        formatFilename(
+            filenameTemplate,
+            {
+                name: "photo",
+                effect: "halftone",
+                preset: "newspaper",
+                index: 7,
+                total: 12,
+                width: 1920,
+                height: 1080,
+                date: new Date(),
+                blob: new Blob(["example"]),
+            },
+            ".png"
+        ).then((example) => {
+            if (!cancelled) setFilenameExample(example);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [filenameTemplate]);
+
     const handleToggleEffect = (effectId: string) => {
         setEnabledEffects((prev) => ({
             ...prev,
@@ -62,6 +91,7 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange }: SettingsMod
         const newSettings = updateActiveProfileSettings({
             visibleEffects: allEnabled ? [] : visibleEffects,
             previewImageUrl: previewUrl,
+            filenameTemplate: filenameTemplate.trim() || DEFAULT_FILENAME_TEMPLATE,
         });
 
         onSettingsChange(newSettings);
@@ -189,6 +219,43 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange }: SettingsMod
                         )}
                     </section>
 
+                    {/* Output Filenames Section */}
+                    <section className="settings-section">
+                        <h3 className="settings-section__title">Output Filenames</h3>
+                        <p className="settings-section__description">
+                            Name pattern for processed files, the extension is added automatically. Use "/" for folders in ZIP downloads.
+                        </p>
+
+                        <input
+                            type="text"
+                            className="settings-input"
+                            value={filenameTemplate}
+                            onChange={(e) => setFilenameTemplate(e.target.value)}
+                            placeholder={DEFAULT_FILENAME_TEMPLATE}
+                            spellCheck={false}
+                        />
+
+                        <div className="filename-tokens">
+                            {FILENAME_TOKENS.map(({ token, description }) => (
+                                <button
+                                    key={token}
+                                    type="button"
+                                    className="filename-tokens__token"
+                                    title={description}
+                                    onClick={() => setFilenameTemplate((prev) => prev + token)}
+                                >
+                                    {token}
+                                </button>
+                            ))}
+                        </div>
+
+                        {filenameExample && (
+                            <p className="filename-tokens__example">
+                                photo.jpg → <code>{filenameExample}</code>
+                            </p>
+                        )}
+                    </section>
+
                     {/* Effects Filter Section */}
                     <section className="settings-section">
                         <div className="settings-section__header">
@@ -0,0 +1,106 @@
+// ================================================================
+// ---------------------- VIDEO FRAME PICKER ----------------------
+// ================================================================
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { seekVideo } from "~/core/video";
+
+interface VideoFramePickerProps {
+    /** Captured frame as a data URL, null to go back to the preview image */
+    onChange: (frameUrl: string | null) => void;
+}
+
+export function VideoFramePicker({ onChange }: VideoFramePickerProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [duration, setDuration] = useState(0);
+    const [time, setTime] = useState(0);
+
+    useEffect(() => {
+        return () => {
+            if (videoUrl) URL.revokeObjectURL(videoUrl);
+        };
+    }, [videoUrl]);
+
+    const captureFrame = useCallback(async (at: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+
+        await seekVideo(video, at);
+        const canvas = document.createElement("canvas");
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        ctx.drawImage(video, 0, 0);
+        onChange(canvas.toDataURL("image/png"));
+    }, [onChange]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setVideoUrl(URL.createObjectURL(file));
+        setTime(0);
+        e.target.value = "";
+    };
+
+    const handleTimeChange = (value: number) => {
+        setTime(value);
+        captureFrame(value);
+    };
+
+    const handleClear = () => {
+        setVideoUrl(null);
+        setDuration(0);
+        onChange(null);
+    };
+
+    return (
+        <div className="setting-item">
+            <label className="setting-item__label" htmlFor="video-preview-frame">
+                Preview frame
+            </label>
+
+            <input ref={fileInputRef} type="file" accept="video/*" onChange={handleFileChange} className="video-frame-picker__file" />
+            <video
+                ref={videoRef}
+                src={videoUrl ?? undefined}
+                className="video-frame-picker__video"
+                muted
+                playsInline
+                preload="auto"
+                onLoadedMetadata={(e) => {
+                    setDuration(e.currentTarget.duration);
+                    captureFrame(0);
+                }}
+            />
+
+            {videoUrl ? (
+                <div className="video-frame-picker">
+                    <div className="setting-item__range">
+                        <input
+                            type="range"
+                            id="video-preview-frame"
+                            min={0}
+                            max={duration}
+                            step={0.01}
+                            value={time}
+                            onChange={(e) => handleTimeChange(Number(e.target.value))}
+                        />
+                        <span className="video-frame-picker__time">{time.toFixed(2)}s</span>
+                    </div>
+                    <button type="button" className="btn btn--text btn--sm" onClick={handleClear}>
+                        Use preview image
+                    </button>
+                </div>
+            ) : (
+                <button type="button" id="video-preview-frame" className="btn btn--secondary btn--sm" onClick={() => fileInputRef.current?.click()}>
+                    Choose Video
+                </button>
+            )}
+        </div>
+    );
+}
@@ -3,12 +3,17 @@
 // ================================================================
 
 import { useState } from "react";
-import type { BatchProgress } from "~/core/base-processor";
+import type { BatchProgress, ProcessResult } from "~/core/base-processor";
 
 export type ProcessedFileType = "image" | "video";
+export type ProcessStatus = "pending" | "processing" | "done" | "failed";
 
-export interface ProcessedImage {
-    filename: string;
+/** State of a single file within a batch, `success` once it is done */
+export interface ProcessedImage extends ProcessResult {
+    status: ProcessStatus;
+    /** Index of the uploaded file, used to retry it */
+    fileIndex: number;
+    /** Empty until the file is done */
     dataUrl: string;
     type: ProcessedFileType;
     blob?: Blob;
@@ -16,18 +21,52 @@ export interface ProcessedImage {
 
 interface WizardProcessProps {
     isProcessing: boolean;
+    isPaused: boolean;
+    isCancelled: boolean;
     progress: BatchProgress | null;
     results: ProcessedImage[];
     onDownload: (result: ProcessedImage) => void;
-    onDownloadAll: () => void;
+    onDownloadAll: (includeManifest: boolean) => Promise<void>;
+    onRetryFailed: () => void;
+    onPauseToggle: () => void;
+    onCancel: () => void;
 }
 
-export function WizardProcess({ isProcessing, progress, results, onDownload, onDownloadAll }: WizardProcessProps) {
+export function WizardProcess({
+    isProcessing,
+    isPaused,
+    isCancelled,
+    progress,
+    results,
+    onDownload,
+    onDownloadAll,
+    onRetryFailed,
+    onPauseToggle,
+    onCancel,
+}: WizardProcessProps) {
     const [previewImage, setPreviewImage] = useState<ProcessedImage | null>(null);
+    const [includeManifest, setIncludeManifest] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    const completed = results.filter((r) => r.status === "done");
+    const failed = results.filter((r) => r.status === "failed");
+    const running = results.filter((r) => r.status === "processing").length;
+
+    const handleDownloadAll = async () => {
+        setIsZipping(true);
+        try {
+            await onDownloadAll(includeManifest);
+        } catch (error) {
+            console.error("Failed to create ZIP:", error);
+        } finally {
+            setIsZipping(false);
+        }
+    };
 
     return (
         <div className="wizard-process">
-            <h2 className="wizard-process__title">{isProcessing ? "Processing..." : "Complete!"}</h2>
+            <h2 className="wizard-process__title">
+                {isProcessing ? (isPaused ? "Paused" : "Processing...") : isCancelled ? "Cancelled" : "Complete!"}
+            </h2>
 
             {/* Progress Bar */}
             {isProcessing && progress && (
@@ -40,33 +79,80 @@ export function WizardProcess({ isProcessing, progress, results, onDownload, onD
                     </div>
                     <p className="process-progress__text">
                         Processing {progress.current} of {progress.total}: {progress.filename}
+                        {running > 0 && ` · ${running} in progress`}
+                        {failed.length > 0 && ` · ${failed.length} failed`}
                     </p>
+                    <div className="process-progress__actions">
+                        <button type="button" className="btn btn--secondary btn--sm" onClick={onPauseToggle}>
+                            {isPaused ? "Resume" : "Pause"}
+                        </button>
+                        <button type="button" className="btn btn--text btn--sm" onClick={onCancel}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {!isProcessing && isCancelled && completed.length === 0 && (
+                <p className="process-progress__text">No files were finished before the batch was cancelled.</p>
+            )}
+
+            {/* Failed Files */}
+            {!isProcessing && failed.length > 0 && (
+                <div className="process-failures">
+                    <div className="process-failures__header">
+                        <span className="process-failures__title">✕ {failed.length} file(s) failed</span>
+                        <button type="button" className="btn btn--secondary btn--sm" onClick={onRetryFailed}>
+                            Retry failed
+                        </button>
+                    </div>
+                    <ul className="process-failures__list">
+                        {failed.map((result) => (
+                            <li key={result.fileIndex} className="process-failures__item">
+                                <span className="process-failures__name">{result.filename}</span>
+                                <span className="process-failures__error">{result.error}</span>
+                            </li>
+                        ))}
+                    </ul>
                 </div>
             )}
 
             {/* Results */}
-            {!isProcessing && results.length > 0 && (
+            {!isProcessing && completed.length > 0 && (
                 <div className="process-results">
                     <div className="process-results__summary">
                         <span className="process-results__success">
-                            ✓ {results.length} file(s) processed
-                            {results.some(r => r.type === "video") && (
+                            ✓ {completed.length} file(s) processed
+                            {completed.some(r => r.type === "video") && (
                                 <span className="process-results__breakdown">
-                                    {" "}({results.filter(r => r.type === "image").length} images, {results.filter(r => r.type === "video").length} videos)
+                                    {" "}({completed.filter(r => r.type === "image").length} images, {completed.filter(r => r.type === "video").length} videos)
                                 </span>
                             )}
                         </span>
+                        {failed.length > 0 && (
+                            <span className="process-results__failed">✕ {failed.length} failed</span>
+                        )}
                     </div>
 
-                    {results.length > 1 && (
-                        <button type="button" className="btn btn--primary" onClick={onDownloadAll}>
-                            Download All
-                        </button>
+                    {completed.length > 1 && (
+                        <div className="process-results__download">
+                            <button type="button" className="btn btn--primary" onClick={handleDownloadAll} disabled={isZipping}>
+                                {isZipping ? "Preparing ZIP..." : "Download All (ZIP)"}
+                            </button>
+                            <label className="process-results__manifest">
+                                <input
+                                    type="checkbox"
+                                    checked={includeManifest}
+                                    onChange={(e) => setIncludeManifest(e.target.checked)}
+                                />
+                                Include settings manifest
+                            </label>
+                        </div>
                     )}
 
                     <div className="process-results__grid">
-                        {results.map((result, index) => (
-                            <div key={index} className={`result-item ${result.type === "video" ? "result-item--video" : ""}`}>
+                        {completed.map((result) => (
+                            <div key={result.fileIndex} className={`result-item ${result.type === "video" ? "result-item--video" : ""}`}>
                                 {result.type === "video" ? (
                                     <video
                                         src={result.dataUrl}
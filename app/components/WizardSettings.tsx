@@ -2,7 +2,8 @@
 // ----------------------- WIZARD SETTINGS ------------------------
 // ================================================================
 
-import type { SettingDefinition } from "~/core/base-processor";
+import { isSettingVisible, type SettingDefinition } from "~/core/base-processor";
+import { SettingField } from "./SettingField";
 
 interface WizardSettingsProps {
     settings: SettingDefinition[];
@@ -17,53 +18,8 @@ export function WizardSettings({ settings, values, onChange }: WizardSettingsPro
             <p className="wizard-settings__subtitle">Fine-tune the effect parameters</p>
 
             <div className="wizard-settings__form">
-                {settings.map((setting) => (
-                    <div key={setting.id} className="form-field">
-                        <label className="form-field__label" htmlFor={setting.id}>
-                            {setting.label}
-                            {setting.description && <span className="form-field__hint">{setting.description}</span>}
-                        </label>
-
-                        {setting.type === "range" && (
-                            <div className="form-field__range">
-                                <input
-                                    type="range"
-                                    id={setting.id}
-                                    min={setting.min}
-                                    max={setting.max}
-                                    step={setting.step}
-                                    value={values[setting.id] as number}
-                                    onChange={(e) => onChange(setting.id, Number(e.target.value))}
-                                />
-                                <span className="form-field__value">{values[setting.id] as number}</span>
-                            </div>
-                        )}
-
-                        {setting.type === "select" && (
-                            <select
-                                id={setting.id}
-                                className="form-field__select"
-                                value={values[setting.id] as string}
-                                onChange={(e) => onChange(setting.id, e.target.value)}
-                            >
-                                {setting.options?.map((option) => (
-                                    <option key={option.value} value={option.value}>
-                                        {option.label}
-                                    </option>
-                                ))}
-                            </select>
-                        )}
-
-                        {setting.type === "checkbox" && (
-                            <input
-                                type="checkbox"
-                                id={setting.id}
-                                className="form-field__checkbox"
-                                checked={values[setting.id] as boolean}
-                                onChange={(e) => onChange(setting.id, e.target.checked)}
-                            />
-                        )}
-                    </div>
+                {settings.filter((setting, _, definitions) => isSettingVisible(setting, values, definitions)).map((setting) => (
+                    <SettingField key={setting.id} setting={setting} value={values[setting.id]} onChange={(value) => onChange(setting.id, value)} />
                 ))}
             </div>
         </div>
@@ -10,19 +10,62 @@ export interface UploadedFile {
     file: File;
     preview: string;
     type: FileType;
+    /** Path relative to the uploaded folder, e.g. "shoots/day-1/img.jpg" */
+    path?: string;
+}
+
+interface FileWithPath {
+    file: File;
+    path?: string;
 }
 
 interface WizardUploadProps {
     files: UploadedFile[];
     onFilesChange: (files: UploadedFile[]) => void;
     mp4support?: boolean;
+    /** Caveats of this effect for video, shown once videos are added */
+    videoNotes?: string[];
 }
 
 const VIDEO_EXTENSIONS = ["mp4", "webm", "mov", "avi", "mkv"];
 const VIDEO_MIME_TYPES = ["video/mp4", "video/webm", "video/quicktime", "video/x-msvideo", "video/x-matroska"];
 
-export function WizardUpload({ files, onFilesChange, mp4support = false }: WizardUploadProps) {
+/* Only keep paths that actually contain a folder */
+function withPath(file: File, path: string): FileWithPath {
+    const relative = path.replace(/^\/+/, "");
+    return relative.includes("/") ? { file, path: relative } : { file };
+}
+
+/* Walks a dropped folder tree, collecting every file with its path */
+async function readEntry(entry: FileSystemEntry): Promise<FileWithPath[]> {
+    try {
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+            return [withPath(file, entry.fullPath)];
+        }
+        if (!entry.isDirectory) return [];
+
+        // readEntries returns results in batches until an empty one
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const children: FileSystemEntry[] = [];
+        for (;;) {
+            const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+            if (batch.length === 0) break;
+            children.push(...batch);
+        }
+
+        const nested = await Promise.all(children.map(readEntry));
+        return nested.flat();
+    } catch (error) {
+        // Unreadable entries are skipped, the rest of the drop is still added
+        console.error(`Failed to read ${entry.fullPath}:`, error);
+        return [];
+    }
+}
+
+export function WizardUpload({ files, onFilesChange, mp4support = false, videoNotes = [] }: WizardUploadProps) {
     const [isDragging, setIsDragging] = useState(false);
+    const [skippedVideos, setSkippedVideos] = useState(0);
     const [urlInput, setUrlInput] = useState("");
     const [isLoadingUrl, setIsLoadingUrl] = useState(false);
     const [urlError, setUrlError] = useState<string | null>(null);
@@ -35,31 +78,51 @@ export function WizardUpload({ files, onFilesChange, mp4support = false }: Wizar
         return file.type.startsWith("image/");
     };
 
-    const handleFiles = useCallback(
-        (newFiles: FileList | null) => {
-            if (!newFiles) return;
-            const validFiles = Array.from(newFiles).filter((file) => {
+    const addFiles = useCallback(
+        (newFiles: FileWithPath[]) => {
+            const validFiles = newFiles.filter(({ file }) => {
                 if (isImageFile(file)) return true;
                 if (mp4support && isVideoFile(file)) return true;
                 return false;
             });
-            const uploadedFiles: UploadedFile[] = validFiles.map((file) => ({
+            // Say why videos were left out instead of dropping them silently
+            setSkippedVideos(mp4support ? 0 : newFiles.filter(({ file }) => isVideoFile(file)).length);
+            const uploadedFiles: UploadedFile[] = validFiles.map(({ file, path }) => ({
                 file,
                 preview: URL.createObjectURL(file),
                 type: isVideoFile(file) ? "video" : "image",
+                path,
             }));
             onFilesChange([...files, ...uploadedFiles]);
         },
         [files, onFilesChange, mp4support]
     );
 
+    const handleFiles = useCallback(
+        (newFiles: FileList | null) => {
+            if (!newFiles) return;
+            // webkitRelativePath is only set when a folder was picked
+            addFiles(Array.from(newFiles).map((file) => withPath(file, file.webkitRelativePath)));
+        },
+        [addFiles]
+    );
+
     const handleDrop = useCallback(
-        (e: React.DragEvent) => {
+        async (e: React.DragEvent) => {
             e.preventDefault();
             setIsDragging(false);
-            handleFiles(e.dataTransfer.files);
+
+            // Entries must be taken before the event handler returns
+            const entries = Array.from(e.dataTransfer.items)
+                .map((item) => item.webkitGetAsEntry())
+                .filter((entry): entry is FileSystemEntry => entry !== null);
+
+            if (entries.length === 0) return handleFiles(e.dataTransfer.files);
+
+            const nested = await Promise.all(entries.map(readEntry));
+            addFiles(nested.flat());
         },
-        [handleFiles]
+        [addFiles, handleFiles]
     );
 
     const removeFile = useCallback(
@@ -147,6 +210,24 @@ export function WizardUpload({ files, onFilesChange, mp4support = false }: Wizar
                 </div>
             </label>
 
+            {skippedVideos > 0 && (
+                <p className="upload-notes upload-notes--warning">
+                    {skippedVideos} video(s) skipped - this effect only works on images
+                </p>
+            )}
+
+            {/* Folder Input */}
+            <label className="upload-folder">
+                <input
+                    type="file"
+                    multiple
+                    className="upload-folder__input"
+                    ref={(input) => input?.setAttribute("webkitdirectory", "")}
+                    onChange={(e) => handleFiles(e.target.files)}
+                />
+                <span className="btn btn--text btn--sm">or choose a whole folder</span>
+            </label>
+
             {/* URL Input */}
             <div className="upload-url">
                 <div className="upload-url__divider">
@@ -189,6 +270,13 @@ export function WizardUpload({ files, onFilesChange, mp4support = false }: Wizar
                             Clear all
                         </button>
                     </div>
+                    {mp4support && videoNotes.length > 0 && files.some((f) => f.type === "video") && (
+                        <ul className="upload-notes">
+                            {videoNotes.map((note) => (
+                                <li key={note}>{note}</li>
+                            ))}
+                        </ul>
+                    )}
                     <div className="upload-preview__grid">
                         {files.map((file, index) => (
                             <div key={index} className={`upload-preview__item ${file.type === "video" ? "upload-preview__item--video" : ""}`}>
@@ -203,7 +291,7 @@ export function WizardUpload({ files, onFilesChange, mp4support = false }: Wizar
                                 <button type="button" className="upload-preview__remove" onClick={() => removeFile(index)}>
                                     ×
                                 </button>
-                                <span className="upload-preview__name">{file.file.name}</span>
+                                <span className="upload-preview__name" title={file.path}>{file.file.name}</span>
                             </div>
                         ))}
                     </div>
@@ -2,10 +2,16 @@
 // ------------------------ APP SETTINGS --------------------------
 // ================================================================
 
+import type { BaseSettings } from "~/core/base-processor";
+import type { PipelineStep } from "~/core/processors/pipeline";
+import { DEFAULT_FILENAME_TEMPLATE } from "~/utils/filename";
+
 /* PROFILE SETTINGS - each profile has its own settings */
 export interface ProfileSettings {
   visibleEffects: string[];
   previewImageUrl: string;
+  /** Name pattern for processed files, see FILENAME_TOKENS */
+  filenameTemplate: string;
 }
 
 export interface Profile {
@@ -20,6 +26,19 @@ export interface AppSettings {
   activeProfileId: string;
 }
 
+/* RECIPES - saved effect stacks */
+export interface Recipe {
+  id: string;
+  name: string;
+  steps: PipelineStep[];
+  baseSettings?: Partial<BaseSettings>;
+  createdAt: number;
+}
+
+export interface RecipeStore {
+  recipes: Recipe[];
+}
+
 const STORAGE_KEY = "neffect-settings";
 
 /* DEFAULT PROFILE SETTINGS */
@@ -27,6 +46,7 @@ const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
   visibleEffects: [], // Empty = show all
   previewImageUrl:
     "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&q=80",
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
 };
 
 /* DEFAULT PROFILES */
@@ -104,7 +124,8 @@ export function getActiveProfileSettings(
   settings: AppSettings
 ): ProfileSettings {
   const profile = getActiveProfile(settings);
-  return profile?.settings || DEFAULT_PROFILE_SETTINGS;
+  // Profiles saved before a setting existed fall back to its default
+  return { ...DEFAULT_PROFILE_SETTINGS, ...profile?.settings };
 }
 
 /* UPDATE ACTIVE PROFILE SETTINGS */
@@ -2,12 +2,33 @@
 // ----------------------- BASE PROCESSOR -------------------------
 // ================================================================
 
+import { parseHexColor } from "./color";
+import {
+  canEncode,
+  OUTPUT_FORMATS,
+  type EncodeOptions,
+  type OutputFormat,
+} from "./image-io";
+import type { VectorImage } from "./vector";
+
 export interface ProcessorConfig {
   id: string;
   name: string;
   description: string;
   icon: string;
   mp4support: boolean;
+  /** Frame-level optimizations and caveats for video input */
+  video?: VideoOptions;
+}
+
+export interface VideoOptions {
+  /**
+   * Work that only depends on the frame size and settings (e.g. halftone
+   * grid positions) is kept between frames via `reuseGeometry`.
+   */
+  reuseGeometry?: boolean;
+  /** Shown in the upload step when videos are added */
+  notes?: string[];
 }
 
 export interface ProcessorPreset {
@@ -19,9 +40,19 @@ export interface ProcessorPreset {
   thumbnail?: string;
 }
 
+export type SettingType =
+  | "range"
+  | "select"
+  | "checkbox"
+  | "color"
+  | "palette"
+  | "text"
+  | "image"
+  | "pipeline";
+
 export interface SettingDefinition {
   id: string;
-  type: "range" | "select" | "checkbox" | "color";
+  type: SettingType;
   label: string;
   description?: string;
   default: unknown;
@@ -29,6 +60,26 @@ export interface SettingDefinition {
   min?: number;
   max?: number;
   step?: number;
+  /** Only show this setting while another setting has one of these values */
+  visibleWhen?: { id: string; values: unknown[] };
+}
+
+/**
+ * Values saved before the controlling setting existed fall back to its
+ * default, looked up in `definitions`.
+ */
+export function isSettingVisible(
+  setting: SettingDefinition,
+  values: Record<string, unknown>,
+  definitions: SettingDefinition[]
+): boolean {
+  if (!setting.visibleWhen) return true;
+
+  const { id } = setting.visibleWhen;
+  const value =
+    values[id] ??
+    definitions.find((definition) => definition.id === id)?.default;
+  return setting.visibleWhen.values.includes(value);
 }
 
 // ================================================================
@@ -40,9 +91,30 @@ export interface BaseSettings {
   base_opacity: number;
   /** Keep original input resolution for output */
   keep_original_resolution: boolean;
+  /** Export SVG instead of a raster image (vector-capable effects only) */
+  vector_output: boolean;
+  /** File format of raster output */
+  output_format: OutputFormat;
+  /** Lossy quality (1-100) */
+  output_quality: number;
+  /** Size limit in KB for lossy formats, 0 = no limit */
+  output_max_size: number;
+  /** Color behind transparent pixels for formats without alpha */
+  output_background: string;
+  /** Palette size for PNG, 0 = full color */
+  output_png_colors: number;
+  /** Palette size for GIF (2-256) */
+  output_gif_colors: number;
   [key: string]: unknown;
 }
 
+const LOSSY_FORMATS = (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).filter(
+  (format) => OUTPUT_FORMATS[format].lossy
+);
+const OPAQUE_FORMATS = (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).filter(
+  (format) => !OUTPUT_FORMATS[format].alpha
+);
+
 export const BASE_SETTINGS_DEFINITIONS: SettingDefinition[] = [
   {
     id: "base_opacity",
@@ -61,11 +133,95 @@ export const BASE_SETTINGS_DEFINITIONS: SettingDefinition[] = [
     description: "Output will have the same resolution as the input file",
     default: false,
   },
+  {
+    id: "output_format",
+    type: "select",
+    label: "Output format",
+    description: "Animated inputs are saved as APNG for PNG, otherwise as GIF",
+    default: "png",
+    options: Object.entries(OUTPUT_FORMATS).map(([value, info]) => ({
+      value,
+      label: info.label,
+    })),
+  },
+  {
+    id: "output_png_colors",
+    type: "select",
+    label: "PNG colors",
+    description: "Fewer colors give much smaller palette PNGs",
+    default: 0,
+    options: [
+      { value: 0, label: "Full color (lossless)" },
+      ...[256, 128, 64, 32, 16, 8, 4, 2].map((colors) => ({
+        value: colors,
+        label: `${colors} colors`,
+      })),
+    ],
+    visibleWhen: { id: "output_format", values: ["png"] },
+  },
+  {
+    id: "output_gif_colors",
+    type: "select",
+    label: "GIF colors",
+    description: "Shared by all frames of an animation",
+    default: 256,
+    options: [256, 128, 64, 32, 16, 8, 4, 2].map((colors) => ({
+      value: colors,
+      label: `${colors} colors`,
+    })),
+    visibleWhen: { id: "output_format", values: ["gif"] },
+  },
+  {
+    id: "output_quality",
+    type: "range",
+    label: "Quality",
+    description: "Encoder quality, the upper bound when a size limit is set",
+    default: 90,
+    min: 1,
+    max: 100,
+    step: 1,
+    visibleWhen: { id: "output_format", values: LOSSY_FORMATS },
+  },
+  {
+    id: "output_max_size",
+    type: "range",
+    label: "Max file size (KB)",
+    description: "Lowers quality until the file fits, 0 = no limit",
+    default: 0,
+    min: 0,
+    max: 5000,
+    step: 10,
+    visibleWhen: { id: "output_format", values: LOSSY_FORMATS },
+  },
+  {
+    id: "output_background",
+    type: "color",
+    label: "Background",
+    description: "Fills transparent areas, the format has no alpha channel",
+    default: "#ffffff",
+    visibleWhen: { id: "output_format", values: OPAQUE_FORMATS },
+  },
 ];
 
+/* Only offered by processors that implement processVector */
+export const VECTOR_OUTPUT_SETTING: SettingDefinition = {
+  id: "vector_output",
+  type: "checkbox",
+  label: "Vector output",
+  description: "Export resolution-independent SVG instead of a raster image",
+  default: false,
+};
+
 export const DEFAULT_BASE_SETTINGS: BaseSettings = {
   base_opacity: 100,
   keep_original_resolution: false,
+  vector_output: false,
+  output_format: "png",
+  output_quality: 90,
+  output_max_size: 0,
+  output_background: "#ffffff",
+  output_png_colors: 0,
+  output_gif_colors: 256,
 };
 
 export function getDefaultBaseSettings(): BaseSettings {
@@ -97,10 +253,56 @@ export function applyBaseSettings(
   return result;
 }
 
+/* Select values arrive as strings, so numbers are parsed here */
+export function getEncodeOptions(baseSettings: BaseSettings): EncodeOptions {
+  const format =
+    baseSettings.output_format in OUTPUT_FORMATS
+      ? baseSettings.output_format
+      : "png";
+
+  return {
+    format,
+    quality:
+      Math.min(100, Math.max(1, Number(baseSettings.output_quality) || 90)) /
+      100,
+    maxSize: Math.max(0, Number(baseSettings.output_max_size) || 0) * 1024,
+    background: parseHexColor(baseSettings.output_background) ?? [
+      255, 255, 255, 255,
+    ],
+    colors:
+      Number(
+        format === "gif"
+          ? baseSettings.output_gif_colors
+          : baseSettings.output_png_colors
+      ) || 0,
+    loopCount: 0,
+  };
+}
+
+export function applyVectorBaseSettings(
+  vector: VectorImage,
+  baseSettings: BaseSettings,
+  originalWidth: number,
+  originalHeight: number
+): VectorImage {
+  return {
+    ...vector,
+    opacity: (vector.opacity ?? 1) * (baseSettings.base_opacity / 100),
+    // Vectors scale losslessly, so only the rendered size changes
+    outputWidth: baseSettings.keep_original_resolution
+      ? originalWidth
+      : vector.outputWidth,
+    outputHeight: baseSettings.keep_original_resolution
+      ? originalHeight
+      : vector.outputHeight,
+  };
+}
+
 export interface ProcessResult {
   success: boolean;
   filename: string;
   buffer?: Uint8Array;
+  /** Reason shown for failed files */
   error?: string;
 }
 
@@ -110,28 +312,75 @@ export interface BatchProgress {
   filename: string;
 }
 
+/**
+ * Carried from one video frame to the next by temporal effects.
+ * Sent between threads, so it must be structured-cloneable.
+ */
+export type FrameState = Record<string, unknown>;
+
+export interface FrameOutput {
+  imageData: ImageData;
+  /** Passed to the next frame, null when nothing needs to be kept */
+  state: FrameState | null;
+}
+
 // ================================================================
 // ---------------------- BASE PROCESSOR CLASS --------------------
 // ================================================================
 
+/* Geometry entries kept per processor, one run rarely needs more */
+const MAX_CACHED_GEOMETRY = 4;
+
 export abstract class BaseProcessImage {
   abstract readonly config: ProcessorConfig;
   abstract readonly presets: ProcessorPreset[];
   abstract readonly settings: SettingDefinition[];
+  private readonly geometryCache = new Map<string, unknown>();
 
+  /** Long-running effects should stop with `signal.reason` once aborted */
   abstract process(
     imageData: ImageData,
-    settings: Record<string, unknown>
+    settings: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<ImageData>;
 
+  /** Geometric effects can also describe their output as vector shapes */
+  processVector?(
+    imageData: ImageData,
+    settings: Record<string, unknown>
+  ): Promise<VectorImage>;
+
+  /**
+   * Whether video frames depend on the previous frame with these settings.
+   * Frames of temporal runs are processed in order through processFrame.
+   */
+  isTemporal(_settings: Record<string, unknown>): boolean {
+    return false;
+  }
+
+  /** One video frame, given the state returned for the frame before it */
+  async processFrame(
+    imageData: ImageData,
+    settings: Record<string, unknown>,
+    _previous: FrameState | null,
+    signal?: AbortSignal
+  ): Promise<FrameOutput> {
+    return {
+      imageData: await this.process(imageData, settings, signal),
+      state: null,
+    };
+  }
+
   async processBatch(
     images: { filename: string; imageData: ImageData }[],
     settings: Record<string, unknown>,
-    onProgress?: (progress: BatchProgress) => void
+    onProgress?: (progress: BatchProgress) => void,
+    signal?: AbortSignal
   ): Promise<{ filename: string; imageData: ImageData }[]> {
     const results: { filename: string; imageData: ImageData }[] = [];
 
     for (let i = 0; i < images.length; i++) {
+      signal?.throwIfAborted();
       const { filename, imageData } = images[i];
 
       onProgress?.({
@@ -140,13 +389,87 @@ export abstract class BaseProcessImage {
         filename,
       });
 
-      const processed = await this.process(imageData, settings);
+      const processed = await this.process(imageData, settings, signal);
       results.push({ filename, imageData: processed });
     }
 
     return results;
   }
 
+  getBaseSettingDefinitions(): SettingDefinition[] {
+    // Only offer formats this browser can actually encode
+    const definitions = BASE_SETTINGS_DEFINITIONS.map((setting) =>
+      setting.id === "output_format"
+        ? {
+            ...setting,
+            options: setting.options?.filter((option) =>
+              canEncode(option.value as OutputFormat)
+            ),
+          }
+        : setting
+    );
+    return this.processVector
+      ? [...definitions, VECTOR_OUTPUT_SETTING]
+      : definitions;
+  }
+
+  /**
+   * Settings for a quick preview of the input scaled by `scale` (< 1).
+   * Effects with sizes in pixels override this so the proxy keeps its look
+   * and actually renders faster.
+   */
+  getProxySettings(
+    settings: Record<string, unknown>,
+    _scale: number
+  ): Record<string, unknown> {
+    return settings;
+  }
+
+  /* Pixel-sized settings multiplied by `scale`, at least 1 */
+  protected scalePixelSettings(
+    settings: Record<string, unknown>,
+    ids: string[],
+    scale: number
+  ): Record<string, unknown> {
+    const scaled = { ...settings };
+    for (const id of ids) {
+      const value = Number(settings[id]);
+      if (value > 0) scaled[id] = Math.max(1, Math.round(value * scale));
+    }
+    return scaled;
+  }
+
+  /* Caveats of video input, including the ones every effect shares */
+  getVideoNotes(): string[] {
+    const notes = [
+      "Videos are saved as WebM, the output format applies to images only",
+    ];
+    if (this.processVector) {
+      notes.push(
+        "Vector output applies to images only, videos are rendered as pixels"
+      );
+    }
+    return [...notes, ...(this.config.video?.notes ?? [])];
+  }
+
+  /**
+   * Memoizes `create` by key when the config declares
+   * `video.reuseGeometry`, so consecutive frames of the same size skip it.
+   */
+  protected reuseGeometry<T>(key: string, create: () => T): T {
+    if (!this.config.video?.reuseGeometry) return create();
+
+    if (this.geometryCache.has(key)) return this.geometryCache.get(key) as T;
+    if (this.geometryCache.size >= MAX_CACHED_GEOMETRY) {
+      // Oldest entry first, Map keeps insertion order
+      this.geometryCache.delete(this.geometryCache.keys().next().value!);
+    }
+
+    const value = create();
+    this.geometryCache.set(key, value);
+    return value;
+  }
+
   getPreset(presetId: string): ProcessorPreset | undefined {
     return this.presets.find((p) => p.id === presetId);
   }
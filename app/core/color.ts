@@ -0,0 +1,43 @@
+// ================================================================
+// ---------------------------- COLOR -----------------------------
+// ================================================================
+
+/* TYPES */
+export type RGBA = [number, number, number, number];
+
+const HEX_COLOR = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/* PARSE HEX COLOR - #rgb, #rgba, #rrggbb or #rrggbbaa */
+export function parseHexColor(value: string): RGBA | null {
+  const match = HEX_COLOR.exec(value.trim());
+  if (!match) return null;
+
+  let hex = match[1];
+  if (hex.length <= 4) {
+    hex = hex
+      .split("")
+      .map((char) => char + char)
+      .join("");
+  }
+  if (hex.length === 6) hex += "ff";
+
+  return [
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+    parseInt(hex.slice(6, 8), 16),
+  ];
+}
+
+/* FORMAT COLOR AS HEX - alpha is only written when not fully opaque */
+export function toHexColor(color: RGBA): string {
+  const channels = color[3] >= 255 ? color.slice(0, 3) : color;
+  return `#${channels
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+/* PERCEIVED BRIGHTNESS (0-255) */
+export function getLuminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
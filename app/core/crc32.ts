@@ -0,0 +1,25 @@
+// ================================================================
+// ---------------------------- CRC-32 ----------------------------
+// ================================================================
+
+/* IEEE polynomial, as used by ZIP and PNG */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/* Pass the previous result as `crc` to continue over several chunks */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let value = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    value = CRC_TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,173 @@
+// ================================================================
+// ----------------------------- GIF ------------------------------
+// ================================================================
+
+import {
+  buildPalette,
+  indexPixels,
+  paletteBytes,
+  type IndexedPalette,
+} from "./indexed";
+
+export interface GifOptions {
+  /** Palette size (2-256), shared by all frames */
+  colors: number;
+  /** Number of repeats, 0 = loop forever */
+  loopCount: number;
+}
+
+export const GIF_MIME_TYPE = "image/gif";
+
+const MAX_CODE_SIZE = 12;
+/* Browsers slow down delays below 2 centiseconds */
+const MIN_DELAY_CS = 2;
+const DISPOSE_NONE = 1;
+const DISPOSE_BACKGROUND = 2;
+
+/**
+ * Encodes frames of equal size as a GIF89a, `delays` in milliseconds.
+ * A single frame gives a still GIF without the looping extension.
+ */
+export function encodeGif(
+  frames: ImageData[],
+  delays: number[],
+  { colors, loopCount }: GifOptions
+): Blob {
+  const { width, height } = frames[0];
+  const palette = buildPalette(frames, colors);
+  const entries = palette.colors.length + (palette.transparent ? 1 : 0);
+  // Color tables hold 2^(n+1) entries, at least 4 for the LZW minimum
+  const tableBits = Math.max(2, Math.ceil(Math.log2(entries)));
+  const animated = frames.length > 1;
+
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+
+  /* HEADER, SCREEN DESCRIPTOR AND GLOBAL COLOR TABLE */
+  const screen = new Uint8Array(13);
+  const screenView = new DataView(screen.buffer);
+  screen.set(new TextEncoder().encode("GIF89a"), 0);
+  screenView.setUint16(6, width, true);
+  screenView.setUint16(8, height, true);
+  screen[10] = 0x80 | 0x70 | (tableBits - 1); // Global table, 8-bit color
+  parts.push(screen, paletteBytes(palette, 1 << tableBits));
+
+  if (animated) {
+    /* NETSCAPE LOOP EXTENSION */
+    const loop = new Uint8Array(19);
+    loop.set([0x21, 0xff, 0x0b], 0);
+    loop.set(new TextEncoder().encode("NETSCAPE2.0"), 3);
+    loop.set([0x03, 0x01, loopCount & 0xff, (loopCount >> 8) & 0xff, 0], 14);
+    parts.push(loop);
+  }
+
+  for (let i = 0; i < frames.length; i++) {
+    parts.push(
+      graphicControl(palette, animated ? (delays[i] ?? 0) : 0),
+      imageDescriptor(width, height),
+      ...lzwEncode(indexPixels(frames[i], palette), tableBits)
+    );
+  }
+
+  parts.push(new Uint8Array([0x3b])); // Trailer
+  return new Blob(parts, { type: GIF_MIME_TYPE });
+}
+
+/* Delay and transparency for the following frame */
+function graphicControl(
+  palette: IndexedPalette,
+  delay: number
+): Uint8Array<ArrayBuffer> {
+  const block = new Uint8Array(8);
+  const view = new DataView(block.buffer);
+  // Transparent frames clear to the background so earlier frames do not show through
+  const disposal = palette.transparent ? DISPOSE_BACKGROUND : DISPOSE_NONE;
+  block.set([
+    0x21,
+    0xf9,
+    0x04,
+    (disposal << 2) | (palette.transparent ? 1 : 0),
+  ]);
+  view.setUint16(
+    4,
+    delay > 0 ? Math.max(MIN_DELAY_CS, Math.round(delay / 10)) : 0,
+    true
+  );
+  block[6] = 0; // Transparent index
+  return block;
+}
+
+function imageDescriptor(
+  width: number,
+  height: number
+): Uint8Array<ArrayBuffer> {
+  const block = new Uint8Array(10);
+  const view = new DataView(block.buffer);
+  block[0] = 0x2c;
+  view.setUint16(5, width, true);
+  view.setUint16(7, height, true);
+  return block;
+}
+
+/* LZW-compressed indices in data sub-blocks, ending with a terminator */
+function lzwEncode(
+  indices: Uint8Array,
+  minCodeSize: number
+): Uint8Array<ArrayBuffer>[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [minCodeSize];
+  const block: number[] = [];
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  const writeCode = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        output.push(255, ...block);
+        block.length = 0;
+      }
+    }
+  };
+
+  // Dictionary keyed by (prefix code << 8) | next index
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  writeCode(clearCode);
+
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    writeCode(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      // Grow once the new code no longer fits the current width
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    } else {
+      writeCode(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = indices[i];
+  }
+
+  writeCode(prefix);
+  writeCode(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) output.push(block.length, ...block);
+  output.push(0);
+
+  return [new Uint8Array(output)];
+}
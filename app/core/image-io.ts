@@ -0,0 +1,345 @@
+// ================================================================
+// --------------------------- IMAGE IO ---------------------------
+// ================================================================
+
+import type { RGBA } from "./color";
+import { encodeGif } from "./gif";
+import { encodeAnimatedPng, encodeIndexedPng } from "./png";
+
+/* Canvas helpers built on OffscreenCanvas so they also run in workers */
+
+/* TYPES */
+export type OutputFormat = "png" | "jpeg" | "webp" | "avif" | "gif";
+
+export interface OutputFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  alpha: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  png: {
+    label: "PNG",
+    mimeType: "image/png",
+    extension: ".png",
+    lossy: false,
+    alpha: true,
+  },
+  jpeg: {
+    label: "JPEG",
+    mimeType: "image/jpeg",
+    extension: ".jpg",
+    lossy: true,
+    alpha: false,
+  },
+  webp: {
+    label: "WebP",
+    mimeType: "image/webp",
+    extension: ".webp",
+    lossy: true,
+    alpha: true,
+  },
+  avif: {
+    label: "AVIF",
+    mimeType: "image/avif",
+    extension: ".avif",
+    lossy: true,
+    alpha: true,
+  },
+  gif: {
+    label: "GIF",
+    mimeType: "image/gif",
+    extension: ".gif",
+    lossy: false,
+    alpha: true,
+  },
+};
+
+/* Encoded in script, so available everywhere */
+const SCRIPT_FORMATS: OutputFormat[] = ["png", "gif"];
+
+/** Decoded frames of an animated GIF, APNG or WebP */
+export interface AnimatedImage {
+  frameCount: number;
+  /** Number of repeats, 0 = loop forever */
+  loopCount: number;
+  /** Frame pixels and display time in milliseconds */
+  decodeFrame: (
+    index: number
+  ) => Promise<{ imageData: ImageData; duration: number }>;
+  close: () => void;
+}
+
+/* Formats that may carry more than one frame */
+const ANIMATED_MIME_TYPES = [
+  "image/gif",
+  "image/png",
+  "image/apng",
+  "image/webp",
+];
+/* Used when a frame does not specify its duration */
+const DEFAULT_FRAME_DURATION = 100;
+
+export interface EncodeOptions {
+  format: OutputFormat;
+  /** Lossy quality 0-1, the upper bound when a size limit is set */
+  quality: number;
+  /** Size limit in bytes for lossy formats, 0 = no limit */
+  maxSize: number;
+  /** Drawn behind transparent pixels for formats without alpha */
+  background: RGBA;
+  /** Palette size for PNG and GIF, 0 = full color (256 for GIF) */
+  colors: number;
+  /** Repeats of animated output, 0 = loop forever */
+  loopCount: number;
+}
+
+const DEFAULT_ENCODE_OPTIONS: EncodeOptions = {
+  format: "png",
+  quality: 0.9,
+  maxSize: 0,
+  background: [255, 255, 255, 255],
+  colors: 0,
+  loopCount: 0,
+};
+
+/* Bisection steps when fitting a size limit */
+const SIZE_SEARCH_STEPS = 7;
+const MIN_QUALITY = 0.01;
+
+const encodeSupport = new Map<string, boolean>();
+
+/* File extension for an encoded blob's MIME type */
+export function getFileExtension(mimeType: string): string {
+  if (mimeType === "image/svg+xml") return ".svg";
+  const format = Object.values(OUTPUT_FORMATS).find(
+    (info) => info.mimeType === mimeType
+  );
+  return format?.extension ?? ".png";
+}
+
+/**
+ * Whether this browser can encode the format (main thread only).
+ * Unsupported types silently fall back to PNG in toDataURL.
+ */
+export function canEncode(format: OutputFormat): boolean {
+  const { mimeType } = OUTPUT_FORMATS[format];
+  if (SCRIPT_FORMATS.includes(format)) return true;
+  if (typeof document === "undefined") return false;
+
+  if (!encodeSupport.has(mimeType)) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    encodeSupport.set(
+      mimeType,
+      canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`)
+    );
+  }
+  return encodeSupport.get(mimeType)!;
+}
+
+/* DECODE IMAGE FILE TO PIXELS */
+export async function decodeImage(source: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/* ENCODE PIXELS TO IMAGE FILE */
+export async function encodeImage(
+  imageData: ImageData,
+  options: Partial<EncodeOptions> = {}
+): Promise<Blob> {
+  const { format, quality, maxSize, background, colors } = {
+    ...DEFAULT_ENCODE_OPTIONS,
+    ...options,
+  };
+  const { mimeType, lossy, alpha } = OUTPUT_FORMATS[format];
+
+  if (format === "png" && colors > 0) {
+    return encodeIndexedPng(imageData, colors);
+  }
+  if (format === "gif") {
+    return encodeGif([imageData], [0], { colors: colors || 256, loopCount: 0 });
+  }
+
+  const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.putImageData(imageData, 0, 0);
+  if (!alpha) {
+    // Flatten onto an opaque background instead of the encoder's black
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = `rgb(${background[0]}, ${background[1]}, ${background[2]})`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const blob = await canvas.convertToBlob({ type: mimeType, quality });
+  if (!lossy || maxSize <= 0 || blob.size <= maxSize) return blob;
+
+  // Binary search for the highest quality that fits the size limit
+  let low = MIN_QUALITY;
+  let high = quality;
+  let best: Blob | null = null;
+
+  for (let step = 0; step < SIZE_SEARCH_STEPS; step++) {
+    const candidateQuality = (low + high) / 2;
+    const candidate = await canvas.convertToBlob({
+      type: mimeType,
+      quality: candidateQuality,
+    });
+
+    if (candidate.size <= maxSize) {
+      best = candidate;
+      low = candidateQuality;
+    } else {
+      high = candidateQuality;
+    }
+  }
+
+  // Nothing fits: hand back the smallest file possible
+  return best ?? canvas.convertToBlob({ type: mimeType, quality: MIN_QUALITY });
+}
+
+/**
+ * Opens a GIF, APNG or animated WebP for frame-by-frame decoding.
+ * Resolves to null for still images or without ImageDecoder support.
+ */
+export async function decodeAnimation(
+  source: Blob
+): Promise<AnimatedImage | null> {
+  if (typeof ImageDecoder === "undefined") return null;
+  if (!ANIMATED_MIME_TYPES.includes(source.type)) return null;
+  if (!(await ImageDecoder.isTypeSupported(source.type))) return null;
+
+  const decoder = new ImageDecoder({
+    data: source.stream(),
+    type: source.type,
+  });
+  try {
+    await decoder.tracks.ready;
+    await decoder.completed;
+  } catch {
+    decoder.close();
+    return null;
+  }
+
+  const track = decoder.tracks.selectedTrack;
+  if (!track || !track.animated || track.frameCount < 2) {
+    decoder.close();
+    return null;
+  }
+
+  return {
+    frameCount: track.frameCount,
+    loopCount: Number.isFinite(track.repetitionCount)
+      ? track.repetitionCount
+      : 0,
+    decodeFrame: async (index) => {
+      // Frames come back fully composited, ready to process
+      const { image } = await decoder.decode({ frameIndex: index });
+      try {
+        const canvas = new OffscreenCanvas(
+          image.displayWidth,
+          image.displayHeight
+        );
+        const ctx = canvas.getContext("2d");
+        if (!ctx) throw new Error("Could not get canvas context");
+        ctx.drawImage(image, 0, 0);
+
+        return {
+          imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+          duration: image.duration
+            ? image.duration / 1000
+            : DEFAULT_FRAME_DURATION,
+        };
+      } finally {
+        image.close();
+      }
+    },
+    close: () => decoder.close(),
+  };
+}
+
+/**
+ * Repeats a still image as the frames of an animation, so parameter
+ * sweeps run through the same path as animated inputs.
+ */
+export function createStillAnimation(
+  imageData: ImageData,
+  frameCount: number,
+  frameDuration: number
+): AnimatedImage {
+  return {
+    frameCount,
+    loopCount: 0,
+    // Each frame gets its own copy, its buffer is transferred to a worker
+    decodeFrame: async () => ({
+      imageData: new ImageData(
+        imageData.data.slice(),
+        imageData.width,
+        imageData.height
+      ),
+      duration: frameDuration,
+    }),
+    close: () => {},
+  };
+}
+
+/**
+ * Encodes processed frames as an animation, `delays` in milliseconds.
+ * PNG gives an APNG; every other format falls back to GIF, the only
+ * animated format the remaining encoders can produce.
+ */
+export async function encodeAnimation(
+  frames: ImageData[],
+  delays: number[],
+  options: Partial<EncodeOptions> = {}
+): Promise<Blob> {
+  const { format, colors, loopCount } = {
+    ...DEFAULT_ENCODE_OPTIONS,
+    ...options,
+  };
+
+  if (format === "png") {
+    return encodeAnimatedPng(frames, delays, { colors, loopCount });
+  }
+  return encodeGif(frames, delays, {
+    colors: format === "gif" && colors > 0 ? colors : 256,
+    loopCount,
+  });
+}
+
+/* SCALE IMAGE DATA TO TARGET SIZE */
+export function scaleImageData(
+  imageData: ImageData,
+  targetWidth: number,
+  targetHeight: number
+): ImageData {
+  const source = new OffscreenCanvas(imageData.width, imageData.height);
+  const sourceCtx = source.getContext("2d");
+  if (!sourceCtx) return imageData;
+  sourceCtx.putImageData(imageData, 0, 0);
+
+  const target = new OffscreenCanvas(targetWidth, targetHeight);
+  const targetCtx = target.getContext("2d");
+  if (!targetCtx) return imageData;
+
+  // Use nearest-neighbor scaling to preserve pixelated look
+  targetCtx.imageSmoothingEnabled = false;
+  targetCtx.drawImage(source, 0, 0, targetWidth, targetHeight);
+
+  return targetCtx.getImageData(0, 0, targetWidth, targetHeight);
+}
@@ -0,0 +1,127 @@
+// ================================================================
+// ------------------------ INDEXED COLOR -------------------------
+// ================================================================
+
+import { PaletteMatcher } from "./palettes";
+import { extractPalette } from "./quantize";
+
+/* Shared by the palette-based encoders (indexed PNG, APNG, GIF) */
+
+export type RGB = [number, number, number];
+
+export interface IndexedPalette {
+  /** Opaque colors, stored after the transparent entry if there is one */
+  colors: RGB[];
+  /** Entry 0 is reserved for transparent pixels */
+  transparent: boolean;
+}
+
+/* Pixels below this alpha become the transparent palette entry */
+export const ALPHA_CUTOFF = 128;
+/* Frames sampled when quantizing an animation */
+const MAX_PALETTE_FRAMES = 8;
+
+/**
+ * Palette with at most `maxColors` entries (2-256) covering all frames.
+ * Inputs that already fit (dithered, pixelated, posterized) keep their
+ * exact colors, others are quantized.
+ */
+export function buildPalette(
+  frames: ImageData[],
+  maxColors: number
+): IndexedPalette {
+  const limit = Math.min(256, Math.max(2, Math.round(maxColors)));
+
+  /* COLLECT COLORS */
+  const unique = new Set<number>();
+  let transparent = false;
+  for (const { data } of frames) {
+    for (let idx = 0; idx < data.length; idx += 4) {
+      if (data[idx + 3] < ALPHA_CUTOFF) {
+        transparent = true;
+      } else if (unique.size <= limit) {
+        unique.add((data[idx] << 16) | (data[idx + 1] << 8) | data[idx + 2]);
+      }
+    }
+  }
+
+  const opaqueLimit = limit - (transparent ? 1 : 0);
+  if (unique.size <= opaqueLimit) {
+    return {
+      colors: Array.from(unique, (rgb) => [
+        (rgb >> 16) & 255,
+        (rgb >> 8) & 255,
+        rgb & 255,
+      ]),
+      transparent,
+    };
+  }
+
+  return {
+    colors: extractPalette(sampleFrames(frames), opaqueLimit).map(
+      ([r, g, b]) => [r, g, b]
+    ),
+    transparent,
+  };
+}
+
+/* Palette index per pixel, nearest color for opaque pixels */
+export function indexPixels(
+  imageData: ImageData,
+  palette: IndexedPalette
+): Uint8Array {
+  const { data } = imageData;
+  const offset = palette.transparent ? 1 : 0;
+  const matcher = new PaletteMatcher(
+    palette.colors.map(([r, g, b]) => [r, g, b, 255])
+  );
+  const lookup = new Map<number, number>();
+  const rgb = new Float32Array(3);
+  const indices = new Uint8Array(data.length / 4);
+
+  for (let i = 0; i < indices.length; i++) {
+    const idx = i * 4;
+    if (data[idx + 3] < ALPHA_CUTOFF) continue; // Index 0 is transparent
+
+    const key = (data[idx] << 16) | (data[idx + 1] << 8) | data[idx + 2];
+    let index = lookup.get(key);
+    if (index === undefined) {
+      rgb[0] = data[idx];
+      rgb[1] = data[idx + 1];
+      rgb[2] = data[idx + 2];
+      index = matcher.nearest(rgb, 0) + offset;
+      lookup.set(key, index);
+    }
+    indices[i] = index;
+  }
+
+  return indices;
+}
+
+/* Palette entries as RGB bytes, transparent entry first */
+export function paletteBytes(
+  palette: IndexedPalette,
+  size?: number
+): Uint8Array<ArrayBuffer> {
+  const offset = palette.transparent ? 1 : 0;
+  const bytes = new Uint8Array((size ?? palette.colors.length + offset) * 3);
+  palette.colors.forEach((color, i) => bytes.set(color, (i + offset) * 3));
+  return bytes;
+}
+
+/* Evenly spaced frames stacked into one image for quantization */
+function sampleFrames(frames: ImageData[]): ImageData {
+  if (frames.length === 1) return frames[0];
+
+  const count = Math.min(frames.length, MAX_PALETTE_FRAMES);
+  const { width, height } = frames[0];
+  const frameSize = width * height * 4;
+  const stacked = new Uint8ClampedArray(frameSize * count);
+
+  for (let i = 0; i < count; i++) {
+    const frame = frames[Math.floor((i * frames.length) / count)];
+    stacked.set(frame.data.subarray(0, frameSize), i * frameSize);
+  }
+
+  return new ImageData(stacked, width, height * count);
+}
@@ -0,0 +1,132 @@
+// ================================================================
+// -------------------------- KEYFRAMES ---------------------------
+// ================================================================
+
+import type { SettingDefinition } from "./base-processor";
+
+/* Range settings animated over the frames of a video or animation */
+
+/* TYPES */
+export type Easing = "linear" | "ease-in" | "ease-out" | "ease-in-out" | "hold";
+
+export interface Keyframe {
+  /** Position in the output, 0 = first frame, 1 = last frame */
+  time: number;
+  value: number;
+  /** Curve from this keyframe to the next one */
+  easing: Easing;
+}
+
+export interface KeyframeTrack {
+  /** Id of the animated range setting */
+  settingId: string;
+  /** Sorted by time */
+  keyframes: Keyframe[];
+}
+
+export const EASING_OPTIONS: { value: Easing; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "ease-in", label: "Ease in" },
+  { value: "ease-out", label: "Ease out" },
+  { value: "ease-in-out", label: "Ease in-out" },
+  { value: "hold", label: "Hold" },
+];
+
+/* Maps segment progress (0-1) to value progress (0-1) */
+const EASING_CURVES: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  "ease-out": (t) => 1 - (1 - t) ** 3,
+  "ease-in-out": (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  // Jumps to the next value once its keyframe is reached
+  hold: () => 0,
+};
+
+/* Only numeric sliders can be interpolated */
+export function getAnimatableSettings(
+  definitions: SettingDefinition[]
+): SettingDefinition[] {
+  return definitions.filter((setting) => setting.type === "range");
+}
+
+/**
+ * New track sweeping from the current value to the far end of the range,
+ * so the animation is visible straight away.
+ */
+export function createTrack(
+  setting: SettingDefinition,
+  value: unknown
+): KeyframeTrack {
+  const min = setting.min ?? 0;
+  const max = setting.max ?? 100;
+  const start = Number(value ?? setting.default) || 0;
+
+  return {
+    settingId: setting.id,
+    keyframes: [
+      { time: 0, value: start, easing: "linear" },
+      { time: 1, value: start < max ? max : min, easing: "linear" },
+    ],
+  };
+}
+
+/* Keeps keyframes ordered after an edit */
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+/* Value of a track at `progress` (0-1), held before the first and after the last keyframe */
+export function sampleTrack(track: KeyframeTrack, progress: number): number {
+  const { keyframes } = track;
+  if (keyframes.length === 0) return 0;
+
+  if (progress <= keyframes[0].time) return keyframes[0].value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (progress >= to.time) continue;
+
+    const span = to.time - from.time;
+    const t = span > 0 ? (progress - from.time) / span : 1;
+    return from.value + (to.value - from.value) * EASING_CURVES[from.easing](t);
+  }
+
+  return keyframes[keyframes.length - 1].value;
+}
+
+/* Position of a frame in the output, the last frame reaches 1 */
+export function frameProgress(index: number, frameCount: number): number {
+  return frameCount > 1 ? index / (frameCount - 1) : 0;
+}
+
+/**
+ * Settings for one frame: animated values replace the static ones,
+ * snapped to the setting's step and range.
+ */
+export function applyKeyframes(
+  settings: Record<string, unknown>,
+  tracks: KeyframeTrack[],
+  definitions: SettingDefinition[],
+  progress: number
+): Record<string, unknown> {
+  if (tracks.length === 0) return settings;
+
+  const animated = { ...settings };
+  for (const track of tracks) {
+    const setting = definitions.find(({ id }) => id === track.settingId);
+    if (!setting || track.keyframes.length === 0) continue;
+
+    const step = setting.step ?? 1;
+    const min = setting.min ?? Number.NEGATIVE_INFINITY;
+    const max = setting.max ?? Number.POSITIVE_INFINITY;
+    const value = Math.round(sampleTrack(track, progress) / step) * step;
+    // Rounding to the step leaves float noise such as 0.30000000000000004
+    animated[track.settingId] = Math.min(
+      max,
+      Math.max(min, Number(value.toFixed(6)))
+    );
+  }
+
+  return animated;
+}
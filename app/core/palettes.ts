@@ -0,0 +1,175 @@
+// ================================================================
+// --------------------------- PALETTES ---------------------------
+// ================================================================
+
+import { getLuminance, parseHexColor, type RGBA } from "./color";
+
+/* TYPES */
+export interface PaletteDefinition {
+  label: string;
+  colors: RGBA[];
+  /** Match by brightness only - colors are ordered dark to bright */
+  luminance?: boolean;
+}
+
+export const CUSTOM_PALETTE = "CUSTOM";
+export const ADAPTIVE_PALETTE = "ADAPTIVE";
+
+/* PARSE A LIST OF HEX COLORS ("#000 #fff" or "#000, #fff") */
+export function parsePaletteColors(value: unknown): RGBA[] {
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[\s,;]+/)
+      : [];
+
+  return entries
+    .map((entry) => (typeof entry === "string" ? parseHexColor(entry) : null))
+    .filter((color): color is RGBA => color !== null);
+}
+
+/* PALETTE DEFINITIONS */
+export const PALETTES: Record<string, PaletteDefinition> = {
+  "BLUE-ON-TRANSPARENT": {
+    label: "Blue on Transparent",
+    colors: [
+      [0, 0, 0, 0], // Transparent (Dark)
+      [59, 130, 245, 255], // Blue (Bright)
+    ],
+    luminance: true,
+  },
+  "WHITE-ON-TRANSPARENT": {
+    label: "White on Transparent",
+    colors: [
+      [0, 0, 0, 0], // Transparent (Dark)
+      [255, 255, 255, 255], // White (Bright)
+    ],
+    luminance: true,
+  },
+  "1-BIT": {
+    label: "1-bit (Black & White)",
+    colors: parsePaletteColors("#000000 #ffffff"),
+  },
+  GAMEBOY: {
+    label: "Game Boy",
+    colors: parsePaletteColors("#0f380f #306230 #8bac0f #9bbc0f"),
+  },
+  CGA: {
+    label: "CGA",
+    colors: parsePaletteColors("#000000 #55ffff #ff55ff #ffffff"),
+  },
+  "PICO-8": {
+    label: "PICO-8",
+    colors: parsePaletteColors(
+      "#000000 #1d2b53 #7e2553 #008751 #ab5236 #5f574f #c2c3c7 #fff1e8 " +
+        "#ff004d #ffa300 #ffec27 #00e436 #29adff #83769c #ff77a8 #ffccaa"
+    ),
+  },
+  EGA: {
+    label: "EGA",
+    colors: parsePaletteColors(
+      "#000000 #0000aa #00aa00 #00aaaa #aa0000 #aa00aa #aa5500 #aaaaaa " +
+        "#555555 #5555ff #55ff55 #55ffff #ff5555 #ff55ff #ffff55 #ffffff"
+    ),
+  },
+};
+
+export function getPaletteOptions(): { value: string; label: string }[] {
+  return [
+    ...Object.entries(PALETTES).map(([value, palette]) => ({
+      value,
+      label: palette.label,
+    })),
+    { value: ADAPTIVE_PALETTE, label: "Adaptive (from image)" },
+    { value: CUSTOM_PALETTE, label: "Custom" },
+  ];
+}
+
+// ================================================================
+// ----------------------- PALETTE MATCHER ------------------------
+// ================================================================
+
+/* Channel weights for color distance (green matters most to the eye) */
+const RGB_WEIGHTS = [2, 4, 3];
+
+/**
+ * Finds the nearest palette entry for a pixel. Pixels are compared in
+ * "match space": premultiplied RGB, or a single brightness value for
+ * luminance palettes.
+ */
+export class PaletteMatcher {
+  readonly colors: RGBA[];
+  readonly dims: 1 | 3;
+  private readonly targets: Float32Array;
+
+  constructor(colors: RGBA[], luminance = false) {
+    this.colors = colors;
+    this.dims = luminance ? 1 : 3;
+    this.targets = new Float32Array(colors.length * this.dims);
+
+    colors.forEach((color, i) => {
+      if (luminance) {
+        this.targets[i] =
+          colors.length > 1 ? (i / (colors.length - 1)) * 255 : 0;
+      } else {
+        const alpha = color[3] / 255;
+        this.targets[i * 3] = color[0] * alpha;
+        this.targets[i * 3 + 1] = color[1] * alpha;
+        this.targets[i * 3 + 2] = color[2] * alpha;
+      }
+    });
+  }
+
+  /* Write the match-space value of pixel `idx` into out[offset..] */
+  read(
+    data: Uint8ClampedArray,
+    idx: number,
+    out: Float32Array,
+    offset: number
+  ): void {
+    const alpha = data[idx + 3] / 255;
+    const r = data[idx] * alpha;
+    const g = data[idx + 1] * alpha;
+    const b = data[idx + 2] * alpha;
+
+    if (this.dims === 1) {
+      out[offset] = getLuminance(r, g, b);
+    } else {
+      out[offset] = r;
+      out[offset + 1] = g;
+      out[offset + 2] = b;
+    }
+  }
+
+  nearest(values: ArrayLike<number>, offset: number): number {
+    let best = 0;
+    let bestDist = Number.POSITIVE_INFINITY;
+
+    for (let i = 0; i < this.colors.length; i++) {
+      let dist = 0;
+      for (let c = 0; c < this.dims; c++) {
+        const diff = values[offset + c] - this.targets[i * this.dims + c];
+        dist += diff * diff * (this.dims === 1 ? 1 : RGB_WEIGHTS[c]);
+      }
+
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+
+    return best;
+  }
+
+  target(index: number, channel: number): number {
+    return this.targets[index * this.dims + channel];
+  }
+
+  write(data: Uint8ClampedArray, idx: number, index: number): void {
+    const color = this.colors[index];
+    data[idx] = color[0];
+    data[idx + 1] = color[1];
+    data[idx + 2] = color[2];
+    data[idx + 3] = color[3];
+  }
+}
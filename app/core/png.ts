@@ -0,0 +1,211 @@
+// ================================================================
+// ------------------------- PNG / APNG ---------------------------
+// ================================================================
+
+import { crc32 } from "./crc32";
+import {
+  buildPalette,
+  indexPixels,
+  paletteBytes,
+  type IndexedPalette,
+} from "./indexed";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const COLOR_TYPE_INDEXED = 3;
+const COLOR_TYPE_RGBA = 6;
+/* APNG frame delays are stored as a fraction, milliseconds here */
+const DELAY_DENOMINATOR = 1000;
+
+export interface AnimatedPngOptions {
+  /** Palette size, 0 = full color RGBA */
+  colors: number;
+  /** Number of plays, 0 = loop forever */
+  loopCount: number;
+}
+
+/**
+ * Encodes a palette PNG with at most `maxColors` entries (2-256).
+ * Images that already fit (dithered, pixelated, posterized) stay lossless,
+ * others are quantized. Partial transparency is reduced to on / off.
+ */
+export async function encodeIndexedPng(
+  imageData: ImageData,
+  maxColors: number
+): Promise<Blob> {
+  const palette = buildPalette([imageData], maxColors);
+  const { width, height } = imageData;
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    ...paletteHeader(width, height, palette),
+    createChunk(
+      "IDAT",
+      await deflate(
+        indexedRows(indexPixels(imageData, palette), width, height, palette)
+      )
+    ),
+    createChunk("IEND", new Uint8Array(0)),
+  ];
+
+  return new Blob(parts, { type: "image/png" });
+}
+
+/**
+ * Encodes frames of equal size as an APNG, `delays` in milliseconds.
+ * Every frame replaces the whole canvas, so no blending is needed.
+ */
+export async function encodeAnimatedPng(
+  frames: ImageData[],
+  delays: number[],
+  { colors, loopCount }: AnimatedPngOptions
+): Promise<Blob> {
+  const { width, height } = frames[0];
+  const palette = colors > 0 ? buildPalette(frames, colors) : null;
+
+  const animationControl = new Uint8Array(8);
+  const acView = new DataView(animationControl.buffer);
+  acView.setUint32(0, frames.length);
+  acView.setUint32(4, loopCount);
+
+  const parts: Uint8Array<ArrayBuffer>[] = [new Uint8Array(PNG_SIGNATURE)];
+  if (palette) {
+    const [header, ...rest] = paletteHeader(width, height, palette);
+    parts.push(header, createChunk("acTL", animationControl), ...rest);
+  } else {
+    parts.push(
+      createChunk("IHDR", imageHeader(width, height, 8, COLOR_TYPE_RGBA)),
+      createChunk("acTL", animationControl)
+    );
+  }
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const frameControl = new Uint8Array(26);
+    const fcView = new DataView(frameControl.buffer);
+    fcView.setUint32(0, sequence++);
+    fcView.setUint32(4, width);
+    fcView.setUint32(8, height);
+    fcView.setUint16(20, Math.min(0xffff, Math.round(delays[i] ?? 0)));
+    fcView.setUint16(22, DELAY_DENOMINATOR);
+    // Offsets, dispose_op and blend_op stay 0 (none / source)
+    parts.push(createChunk("fcTL", frameControl));
+
+    const rows = palette
+      ? indexedRows(indexPixels(frames[i], palette), width, height, palette)
+      : rgbaRows(frames[i]);
+    const compressed = await deflate(rows);
+
+    if (i === 0) {
+      parts.push(createChunk("IDAT", compressed));
+    } else {
+      const frameData = new Uint8Array(4 + compressed.length);
+      new DataView(frameData.buffer).setUint32(0, sequence++);
+      frameData.set(compressed, 4);
+      parts.push(createChunk("fdAT", frameData));
+    }
+  }
+
+  parts.push(createChunk("IEND", new Uint8Array(0)));
+  return new Blob(parts, { type: "image/png" });
+}
+
+function imageHeader(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number
+): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([bitDepth, colorType, 0, 0, 0], 8);
+  return header;
+}
+
+/* IHDR, PLTE and (if needed) tRNS for a palette image */
+function paletteHeader(
+  width: number,
+  height: number,
+  palette: IndexedPalette
+): Uint8Array<ArrayBuffer>[] {
+  const chunks = [
+    createChunk(
+      "IHDR",
+      imageHeader(width, height, bitDepthFor(palette), COLOR_TYPE_INDEXED)
+    ),
+    createChunk("PLTE", paletteBytes(palette)),
+  ];
+  // Only entry 0 needs an alpha value, the rest default to opaque
+  if (palette.transparent) {
+    chunks.push(createChunk("tRNS", new Uint8Array([0])));
+  }
+  return chunks;
+}
+
+function bitDepthFor(palette: IndexedPalette): number {
+  const entries = palette.colors.length + (palette.transparent ? 1 : 0);
+  return entries <= 2 ? 1 : entries <= 4 ? 2 : entries <= 16 ? 4 : 8;
+}
+
+/* Indices packed at the palette's bit depth, filter type 0 per row */
+function indexedRows(
+  indices: Uint8Array,
+  width: number,
+  height: number,
+  palette: IndexedPalette
+): Uint8Array<ArrayBuffer> {
+  const bitDepth = bitDepthFor(palette);
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  const perByte = 8 / bitDepth;
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowBytes + 1) + 1; // First byte is filter type 0
+    for (let x = 0; x < width; x++) {
+      const shift = (perByte - 1 - (x % perByte)) * bitDepth;
+      raw[rowStart + Math.floor(x / perByte)] |=
+        indices[y * width + x] << shift;
+    }
+  }
+
+  return raw;
+}
+
+function rgbaRows(imageData: ImageData): Uint8Array<ArrayBuffer> {
+  const { width, height, data } = imageData;
+  const rowBytes = width * 4;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+
+  for (let y = 0; y < height; y++) {
+    raw.set(
+      data.subarray(y * rowBytes, (y + 1) * rowBytes),
+      y * (rowBytes + 1) + 1
+    );
+  }
+
+  return raw;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  const typeBytes = new TextEncoder().encode(type);
+
+  view.setUint32(0, data.length);
+  chunk.set(typeBytes, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(data, crc32(typeBytes)));
+  return chunk;
+}
+
+/* zlib stream, as required for IDAT */
+async function deflate(
+  data: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
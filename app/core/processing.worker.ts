@@ -0,0 +1,148 @@
+// ================================================================
+// ---------------------- PROCESSING WORKER -----------------------
+// ================================================================
+
+import {
+  applyBaseSettings,
+  applyVectorBaseSettings,
+  getEncodeOptions,
+  type BaseProcessImage,
+  type BaseSettings,
+} from "./base-processor";
+import { decodeImage, encodeImage, scaleImageData } from "./image-io";
+import { getProcessor } from "./processors";
+import { SVG_MIME_TYPE, vectorToSvg } from "./vector";
+import {
+  fromFrameData,
+  getTransferables,
+  toFrameData,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerResult,
+  type WorkerTask,
+} from "./worker-pool";
+
+/* Signals of the tasks in progress, by request id */
+const controllers = new Map<number, AbortController>();
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  if ("abort" in event.data) {
+    controllers.get(event.data.id)?.abort();
+    return;
+  }
+
+  const { id, task } = event.data;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    const result = await runTask(task, controller.signal);
+    const response: WorkerResponse = { id, result };
+    self.postMessage(response, { transfer: getTransferables(result) });
+  } catch (error) {
+    const response: WorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+async function runTask(
+  task: WorkerTask,
+  signal: AbortSignal
+): Promise<WorkerResult> {
+  const processor = getProcessor(task.processorId);
+  if (!processor) throw new Error(`Unknown effect "${task.processorId}"`);
+
+  if (task.type === "frame" && task.state !== undefined) {
+    const imageData = fromFrameData(task.frame);
+    const { imageData: processed, state } = await processor.processFrame(
+      imageData,
+      task.settings,
+      task.state,
+      signal
+    );
+    const frame = finishImage(imageData, processed, task.baseSettings);
+    return { type: "frame", frame: toFrameData(frame), state };
+  }
+
+  if (task.type === "frame") {
+    const frame = await renderImage(
+      processor,
+      fromFrameData(task.frame),
+      task.settings,
+      task.baseSettings,
+      signal
+    );
+    return { type: "frame", frame: toFrameData(frame) };
+  }
+
+  const imageData =
+    task.source instanceof Blob
+      ? await decodeImage(task.source)
+      : fromFrameData(task.source);
+
+  if (task.baseSettings.vector_output && processor.processVector) {
+    const vector = await processor.processVector(imageData, task.settings);
+    const output = applyVectorBaseSettings(
+      vector,
+      task.baseSettings,
+      imageData.width,
+      imageData.height
+    );
+    return {
+      type: "image",
+      blob: new Blob([vectorToSvg(output)], { type: SVG_MIME_TYPE }),
+      width: output.outputWidth ?? output.width,
+      height: output.outputHeight ?? output.height,
+    };
+  }
+
+  const rendered = await renderImage(
+    processor,
+    imageData,
+    task.settings,
+    task.baseSettings,
+    signal
+  );
+  signal.throwIfAborted();
+  return {
+    type: "image",
+    blob: await encodeImage(rendered, getEncodeOptions(task.baseSettings)),
+    width: rendered.width,
+    height: rendered.height,
+  };
+}
+
+/* Effect plus base settings, scaled back to the source size if requested */
+async function renderImage(
+  processor: BaseProcessImage,
+  imageData: ImageData,
+  settings: Record<string, unknown>,
+  baseSettings: BaseSettings,
+  signal: AbortSignal
+): Promise<ImageData> {
+  const processed = await processor.process(imageData, settings, signal);
+  return finishImage(imageData, processed, baseSettings);
+}
+
+function finishImage(
+  original: ImageData,
+  processed: ImageData,
+  baseSettings: BaseSettings
+): ImageData {
+  const { width, height } = original;
+  const result = applyBaseSettings(original, processed, baseSettings);
+
+  if (
+    baseSettings.keep_original_resolution &&
+    (result.width !== width || result.height !== height)
+  ) {
+    return scaleImageData(result, width, height);
+  }
+
+  return result;
+}
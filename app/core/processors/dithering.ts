@@ -2,39 +2,162 @@
 // --------------------- DITHERING PROCESSOR ----------------------
 // ================================================================
 
+import type { RGBA } from "../color";
 import {
   BaseProcessImage,
+  type FrameOutput,
+  type FrameState,
   type ProcessorConfig,
   type ProcessorPreset,
   type SettingDefinition,
 } from "../base-processor";
+import {
+  ADAPTIVE_PALETTE,
+  CUSTOM_PALETTE,
+  PALETTES,
+  PaletteMatcher,
+  getPaletteOptions,
+  parsePaletteColors,
+} from "../palettes";
+import { ALPHA_CUTOFF } from "../indexed";
+import {
+  QUANTIZE_METHOD_OPTIONS,
+  extractPalette,
+  type QuantizeMethod,
+} from "../quantize";
+import {
+  THRESHOLD_MATRIX_OPTIONS,
+  getThreshold,
+  getThresholdMap,
+  loadThresholdTexture,
+  type ThresholdMap,
+  type ThresholdMatrix,
+} from "../threshold-maps";
 
 /* TYPES */
-type DitherFilter = "ordered" | "none";
-type PaletteName = "BLUE-ON-TRANSPARENT" | "WHITE-ON-TRANSPARENT";
-type RGBA = [number, number, number, number];
-
-/* BAYER MATRIX 4x4 */
-const BAYER_MATRIX_4X4: number[][] = [
-  [0, 8, 2, 10],
-  [12, 4, 14, 6],
-  [3, 11, 1, 9],
-  [15, 7, 13, 5],
-];
-const BAYER_DIVISOR = 16;
-
-/* PALETTE DEFINITIONS */
-const PALETTES: Record<PaletteName, RGBA[]> = {
-  "BLUE-ON-TRANSPARENT": [
-    [0, 0, 0, 0], // Transparent (Dark)
-    [59, 130, 245, 255], // Blue (Bright)
-  ],
-  "WHITE-ON-TRANSPARENT": [
-    [0, 0, 0, 0], // Transparent (Dark)
-    [255, 255, 255, 255], // White (Bright)
-  ],
+type DiffusionFilter =
+  | "floyd-steinberg"
+  | "atkinson"
+  | "jarvis-judice-ninke"
+  | "stucki"
+  | "burkes"
+  | "sierra";
+type DitherFilter = "ordered" | "none" | DiffusionFilter;
+
+/* ERROR DIFFUSION KERNELS - [dx, dy, weight] relative to the current pixel */
+interface DiffusionKernel {
+  divisor: number;
+  weights: [number, number, number][];
+}
+
+const DIFFUSION_KERNELS: Record<DiffusionFilter, DiffusionKernel> = {
+  "floyd-steinberg": {
+    divisor: 16,
+    weights: [
+      [1, 0, 7],
+      [-1, 1, 3],
+      [0, 1, 5],
+      [1, 1, 1],
+    ],
+  },
+  // Atkinson only propagates 6/8 of the error, which keeps highlights crisp
+  atkinson: {
+    divisor: 8,
+    weights: [
+      [1, 0, 1],
+      [2, 0, 1],
+      [-1, 1, 1],
+      [0, 1, 1],
+      [1, 1, 1],
+      [0, 2, 1],
+    ],
+  },
+  "jarvis-judice-ninke": {
+    divisor: 48,
+    weights: [
+      [1, 0, 7],
+      [2, 0, 5],
+      [-2, 1, 3],
+      [-1, 1, 5],
+      [0, 1, 7],
+      [1, 1, 5],
+      [2, 1, 3],
+      [-2, 2, 1],
+      [-1, 2, 3],
+      [0, 2, 5],
+      [1, 2, 3],
+      [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    weights: [
+      [1, 0, 8],
+      [2, 0, 4],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 8],
+      [1, 1, 4],
+      [2, 1, 2],
+      [-2, 2, 1],
+      [-1, 2, 2],
+      [0, 2, 4],
+      [1, 2, 2],
+      [2, 2, 1],
+    ],
+  },
+  burkes: {
+    divisor: 32,
+    weights: [
+      [1, 0, 8],
+      [2, 0, 4],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 8],
+      [1, 1, 4],
+      [2, 1, 2],
+    ],
+  },
+  sierra: {
+    divisor: 32,
+    weights: [
+      [1, 0, 5],
+      [2, 0, 3],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 5],
+      [1, 1, 4],
+      [2, 1, 2],
+      [-1, 2, 2],
+      [0, 2, 3],
+      [1, 2, 2],
+    ],
+  },
 };
 
+const DIFFUSION_FILTERS = Object.keys(DIFFUSION_KERNELS) as DiffusionFilter[];
+
+/* TEMPORAL STABILITY */
+/* Per-channel input change (0-255) that still holds a pixel at 100% */
+const MAX_HOLD_TOLERANCE = 48;
+
+interface DitherFrameState extends FrameState {
+  width: number;
+  height: number;
+  /** Working-resolution input each held pixel was last dithered from */
+  reference: Uint8ClampedArray;
+  /** Palette index chosen per working pixel */
+  indices: Uint16Array;
+  /** Adaptive palette of the first frame, reused so indices stay valid */
+  palette: RGBA[];
+}
+
+/* Per-pixel palette index carried over from the previous frame, -1 = dither */
+interface TemporalPass {
+  held: Int32Array | null;
+  indices: Uint16Array;
+}
+
 // ================================================================
 // --------------------- DITHERING PROCESSOR ----------------------
 // ================================================================
@@ -44,9 +167,14 @@ export class DitheringProcessor extends BaseProcessImage {
     id: "dithering",
     name: "Dithering",
     description:
-      "Apply retro ordered dithering effect with customizable grain size.",
+      "Apply retro ordered or error-diffusion dithering with customizable grain size.",
     icon: "",
     mp4support: true,
+    video: {
+      notes: [
+        "Turn on Temporal Stability to stop the dither pattern from shimmering",
+      ],
+    },
   };
 
   readonly presets: ProcessorPreset[] = [
@@ -59,12 +187,20 @@ export class DitheringProcessor extends BaseProcessImage {
       },
       settings: {
         palette: "BLUE-ON-TRANSPARENT",
+        customPalette: ["#0f172a", "#3b82f6", "#f8fafc"],
+        paletteMethod: "median-cut",
+        paletteSize: 8,
         filter: "ordered",
+        matrix: "bayer-4",
+        thresholdTexture: "",
         steps: 11,
+        spread: 50,
         grainSize: 2,
         brightness: 0,
         contrast: 0,
         inputResolution: 800,
+        serpentine: true,
+        errorStrength: 100,
       },
     },
     {
@@ -76,12 +212,70 @@ export class DitheringProcessor extends BaseProcessImage {
       },
       settings: {
         palette: "WHITE-ON-TRANSPARENT",
+        customPalette: ["#0f172a", "#3b82f6", "#f8fafc"],
+        paletteMethod: "median-cut",
+        paletteSize: 8,
         filter: "ordered",
+        matrix: "bayer-4",
+        thresholdTexture: "",
         steps: 11,
+        spread: 50,
         grainSize: 2,
         brightness: 0,
         contrast: 0,
         inputResolution: 800,
+        serpentine: true,
+        errorStrength: 100,
+      },
+    },
+    {
+      id: "print-diffusion",
+      name: "Print Diffusion",
+      description: "Floyd–Steinberg diffusion, fine print-style grain",
+      baseSettings: {
+        base_opacity: 100,
+      },
+      settings: {
+        palette: "WHITE-ON-TRANSPARENT",
+        customPalette: ["#0f172a", "#3b82f6", "#f8fafc"],
+        paletteMethod: "median-cut",
+        paletteSize: 8,
+        filter: "floyd-steinberg",
+        matrix: "bayer-4",
+        thresholdTexture: "",
+        steps: 11,
+        spread: 50,
+        grainSize: 1,
+        brightness: 0,
+        contrast: 10,
+        inputResolution: 800,
+        serpentine: true,
+        errorStrength: 100,
+      },
+    },
+    {
+      id: "game-boy",
+      name: "Game Boy",
+      description: "Four-shade green handheld look",
+      baseSettings: {
+        base_opacity: 100,
+      },
+      settings: {
+        palette: "GAMEBOY",
+        customPalette: ["#0f172a", "#3b82f6", "#f8fafc"],
+        paletteMethod: "median-cut",
+        paletteSize: 8,
+        filter: "ordered",
+        matrix: "bayer-4",
+        thresholdTexture: "",
+        steps: 10,
+        spread: 35,
+        grainSize: 3,
+        brightness: 0,
+        contrast: 10,
+        inputResolution: 600,
+        serpentine: true,
+        errorStrength: 100,
       },
     },
   ];
@@ -93,10 +287,35 @@ export class DitheringProcessor extends BaseProcessImage {
       label: "Color Palette",
       description: "Choose the output color palette",
       default: "BLUE-ON-TRANSPARENT",
-      options: [
-        { value: "BLUE-ON-TRANSPARENT", label: "Blue on Transparent" },
-        { value: "WHITE-ON-TRANSPARENT", label: "White on Transparent" },
-      ],
+      options: getPaletteOptions(),
+    },
+    {
+      id: "customPalette",
+      type: "palette",
+      label: "Custom Colors",
+      description: "Palette entries, including their transparency",
+      default: ["#0f172a", "#3b82f6", "#f8fafc"],
+      visibleWhen: { id: "palette", values: [CUSTOM_PALETTE] },
+    },
+    {
+      id: "paletteMethod",
+      type: "select",
+      label: "Extraction Method",
+      description: "Algorithm used to derive the palette from the image",
+      default: "median-cut",
+      options: QUANTIZE_METHOD_OPTIONS,
+      visibleWhen: { id: "palette", values: [ADAPTIVE_PALETTE] },
+    },
+    {
+      id: "paletteSize",
+      type: "range",
+      label: "Palette Colors",
+      description: "Number of colors extracted from the image",
+      default: 8,
+      min: 2,
+      max: 32,
+      step: 1,
+      visibleWhen: { id: "palette", values: [ADAPTIVE_PALETTE] },
     },
     {
       id: "filter",
@@ -106,18 +325,75 @@ export class DitheringProcessor extends BaseProcessImage {
       default: "ordered",
       options: [
         { value: "ordered", label: "Ordered (Dithering)" },
+        { value: "floyd-steinberg", label: "Floyd–Steinberg" },
+        { value: "atkinson", label: "Atkinson" },
+        { value: "jarvis-judice-ninke", label: "Jarvis–Judice–Ninke" },
+        { value: "stucki", label: "Stucki" },
+        { value: "burkes", label: "Burkes" },
+        { value: "sierra", label: "Sierra" },
         { value: "none", label: "None (Palette only)" },
       ],
     },
+    {
+      id: "serpentine",
+      type: "checkbox",
+      label: "Serpentine Scan",
+      description:
+        "Alternate scan direction per row to avoid diagonal artifacts",
+      default: true,
+      visibleWhen: { id: "filter", values: DIFFUSION_FILTERS },
+    },
+    {
+      id: "errorStrength",
+      type: "range",
+      label: "Error Strength",
+      description: "Share of the quantization error passed to neighbours (%)",
+      default: 100,
+      min: 0,
+      max: 100,
+      step: 5,
+      visibleWhen: { id: "filter", values: DIFFUSION_FILTERS },
+    },
+    {
+      id: "matrix",
+      type: "select",
+      label: "Threshold Matrix",
+      description: "Pattern used to distribute the ordered dither",
+      default: "bayer-4",
+      options: THRESHOLD_MATRIX_OPTIONS,
+      visibleWhen: { id: "filter", values: ["ordered"] },
+    },
+    {
+      id: "thresholdTexture",
+      type: "image",
+      label: "Threshold Texture",
+      description: "Grayscale image tiled as the threshold map",
+      default: "",
+      visibleWhen: { id: "matrix", values: ["custom"] },
+    },
     {
       id: "steps",
       type: "range",
       label: "Steps",
-      description: "1 = most detail, 12 = least detail",
+      description:
+        "Gray levels for the transparent palettes: 1 = most detail, 12 = least detail",
       default: 11,
       min: 0,
       max: 12,
       step: 1,
+      visibleWhen: { id: "filter", values: ["ordered"] },
+    },
+    {
+      id: "spread",
+      type: "range",
+      label: "Spread",
+      description:
+        "Dither spread for every other palette: 0 = none, 100 = strongest mixing",
+      default: 50,
+      min: 0,
+      max: 100,
+      step: 5,
+      visibleWhen: { id: "filter", values: ["ordered"] },
     },
     {
       id: "grainSize",
@@ -149,6 +425,17 @@ export class DitheringProcessor extends BaseProcessImage {
       max: 100,
       step: 5,
     },
+    {
+      id: "temporalStability",
+      type: "range",
+      label: "Temporal Stability",
+      description:
+        "Video only: pixels that barely change keep their color, stopping shimmer (0 = off)",
+      default: 0,
+      min: 0,
+      max: 100,
+      step: 5,
+    },
     {
       id: "inputResolution",
       type: "range",
@@ -165,9 +452,56 @@ export class DitheringProcessor extends BaseProcessImage {
     imageData: ImageData,
     settings: Record<string, unknown>
   ): Promise<ImageData> {
-    const palette = (settings.palette as PaletteName) || "BLUE-ON-TRANSPARENT";
+    return (await this.render(imageData, settings, null)).imageData;
+  }
+
+  getProxySettings(
+    settings: Record<string, unknown>,
+    scale: number
+  ): Record<string, unknown> {
+    // Unset values fall back to the defaults used by process()
+    return this.scalePixelSettings(
+      {
+        ...settings,
+        inputResolution: (settings.inputResolution as number) || 800,
+        grainSize: (settings.grainSize as number) || 2,
+      },
+      ["inputResolution", "grainSize"],
+      scale
+    );
+  }
+
+  isTemporal(settings: Record<string, unknown>): boolean {
+    return (Number(settings.temporalStability) || 0) > 0;
+  }
+
+  async processFrame(
+    imageData: ImageData,
+    settings: Record<string, unknown>,
+    previous: FrameState | null
+  ): Promise<FrameOutput> {
+    if (!this.isTemporal(settings)) {
+      return this.render(imageData, settings, null);
+    }
+    return this.render(imageData, settings, {
+      previous: previous as DitherFrameState | null,
+    });
+  }
+
+  // ================================================================
+  // ------------------------ PRIVATE METHODS -----------------------
+  // ================================================================
+
+  /* Temporal runs pass a context, the state is null for the first frame */
+  private async render(
+    imageData: ImageData,
+    settings: Record<string, unknown>,
+    temporal: { previous: DitherFrameState | null } | null
+  ): Promise<FrameOutput> {
+    const palette = (settings.palette as string) || "BLUE-ON-TRANSPARENT";
     const filter = (settings.filter as DitherFilter) || "ordered";
     const steps = (settings.steps as number) || 11;
+    const spread = this.clamp(((settings.spread as number) ?? 50) / 100, 0, 1);
     const grainSize = Math.max(
       1,
       Math.round((settings.grainSize as number) || 2)
@@ -175,8 +509,15 @@ export class DitheringProcessor extends BaseProcessImage {
     const brightness = ((settings.brightness as number) || 0) / 100; // Convert to -1 to 1
     const contrast = ((settings.contrast as number) || 0) / 100; // Convert to -1 to 1
     const inputResolution = (settings.inputResolution as number) || 800;
-
-    const paletteColors = PALETTES[palette] || PALETTES["BLUE-ON-TRANSPARENT"];
+    const serpentine = settings.serpentine !== false;
+    const errorStrength = this.clamp(
+      ((settings.errorStrength as number) ?? 100) / 100,
+      0,
+      1
+    );
+    const tolerance =
+      this.clamp((Number(settings.temporalStability) || 0) / 100, 0, 1) *
+      MAX_HOLD_TOLERANCE;
 
     // Step 1: Resize to input resolution (maintaining aspect ratio)
     let workingData = this.resizeImage(imageData, inputResolution);
@@ -193,26 +534,152 @@ export class DitheringProcessor extends BaseProcessImage {
       this.applyBrightnessContrast(workingData, brightness, contrast);
     }
 
-    // Step 4: Apply dithering or palette quantization
+    // Step 4: Resolve the palette (adaptive palettes learn from the image)
+    const previous = temporal?.previous;
+    const matcher =
+      previous && palette === ADAPTIVE_PALETTE
+        ? new PaletteMatcher(previous.palette)
+        : this.createMatcher(palette, settings, workingData);
+
+    // Step 5: Hold pixels whose input barely changed since the previous frame
+    // (the input copy also restores transparency for adaptive palettes)
+    const input =
+      temporal || palette === ADAPTIVE_PALETTE
+        ? workingData.data.slice()
+        : null;
+    const pass: TemporalPass | undefined = temporal
+      ? {
+          held: previous
+            ? this.findHeldPixels(workingData, previous, tolerance)
+            : null,
+          indices: new Uint16Array(smallWidth * smallHeight),
+        }
+      : undefined;
+
+    // Step 6: Apply dithering or palette quantization
     if (filter === "ordered") {
-      this.applyOrderedDither(workingData, steps, paletteColors);
+      const thresholdMap = await this.resolveThresholdMap(settings);
+      // Only the dark-to-bright luminance palettes blend in between their
+      // colors, every other palette snaps to its nearest entry
+      if (matcher.dims === 1) {
+        this.applySteppedDither(
+          workingData,
+          steps,
+          matcher,
+          thresholdMap,
+          pass
+        );
+      } else {
+        this.applyOrderedDither(
+          workingData,
+          spread,
+          matcher,
+          thresholdMap,
+          pass
+        );
+      }
+    } else if (filter in DIFFUSION_KERNELS) {
+      this.applyErrorDiffusion(
+        workingData,
+        matcher,
+        DIFFUSION_KERNELS[filter as DiffusionFilter],
+        serpentine,
+        errorStrength,
+        pass
+      );
     } else {
-      this.applyPaletteQuantization(workingData, paletteColors);
+      this.applyPaletteQuantization(workingData, matcher, pass);
     }
 
-    // Step 5: Scale back to original size with nearest neighbor
+    // Adaptive palettes are learned from opaque pixels only, so transparent
+    // areas would otherwise be filled with the nearest opaque color
+    if (palette === ADAPTIVE_PALETTE && input) {
+      this.restoreTransparency(workingData, input);
+    }
+
+    const state =
+      pass && input
+        ? this.createFrameState(
+            input,
+            smallWidth,
+            smallHeight,
+            matcher,
+            pass,
+            previous
+          )
+        : null;
+
+    // Step 7: Scale back to original size with nearest neighbor
     workingData = this.resizeImageNearest(
       workingData,
       originalWidth,
       originalHeight
     );
 
-    return workingData;
+    return { imageData: workingData, state };
   }
 
-  // ================================================================
-  // ------------------------ PRIVATE METHODS -----------------------
-  // ================================================================
+  /* Source alpha back on pixels below the cutoff */
+  private restoreTransparency(
+    imageData: ImageData,
+    source: Uint8ClampedArray
+  ): void {
+    const { data } = imageData;
+    for (let idx = 3; idx < data.length; idx += 4) {
+      if (source[idx] < ALPHA_CUTOFF) data[idx] = source[idx];
+    }
+  }
+
+  /* Previous index per working pixel within tolerance, -1 elsewhere */
+  private findHeldPixels(
+    imageData: ImageData,
+    previous: DitherFrameState,
+    tolerance: number
+  ): Int32Array | null {
+    const { width, height, data } = imageData;
+    // A resized source starts over
+    if (previous.width !== width || previous.height !== height) return null;
+
+    const held = new Int32Array(width * height).fill(-1);
+    const { reference, indices } = previous;
+
+    for (let i = 0; i < held.length; i++) {
+      const idx = i * 4;
+      let change = 0;
+      for (let c = 0; c < 4; c++) {
+        change = Math.max(change, Math.abs(data[idx + c] - reference[idx + c]));
+      }
+      if (change <= tolerance) held[i] = indices[i];
+    }
+
+    return held;
+  }
+
+  /* Held pixels keep their old reference, so slow drift still updates */
+  private createFrameState(
+    input: Uint8ClampedArray,
+    width: number,
+    height: number,
+    matcher: PaletteMatcher,
+    pass: TemporalPass,
+    previous: DitherFrameState | null | undefined
+  ): DitherFrameState {
+    const reference = input;
+    if (previous && pass.held) {
+      for (let i = 0; i < pass.held.length; i++) {
+        if (pass.held[i] < 0) continue;
+        reference.set(previous.reference.subarray(i * 4, i * 4 + 4), i * 4);
+      }
+    }
+
+    return {
+      width,
+      height,
+      reference,
+      indices: pass.indices,
+      palette: matcher.colors,
+    };
+  }
 
   private resizeImage(imageData: ImageData, targetHeight: number): ImageData {
     const { width, height } = imageData;
@@ -312,12 +779,59 @@ export class DitheringProcessor extends BaseProcessImage {
     }
   }
 
-  private applyOrderedDither(
+  private createMatcher(
+    palette: string,
+    settings: Record<string, unknown>,
+    imageData: ImageData
+  ): PaletteMatcher {
+    if (palette === CUSTOM_PALETTE) {
+      const colors = parsePaletteColors(settings.customPalette);
+      if (colors.length > 0) return new PaletteMatcher(colors);
+    }
+
+    if (palette === ADAPTIVE_PALETTE) {
+      const colors = extractPalette(
+        imageData,
+        (settings.paletteSize as number) || 8,
+        (settings.paletteMethod as QuantizeMethod) || "median-cut"
+      );
+      return new PaletteMatcher(colors);
+    }
+
+    const definition = PALETTES[palette] || PALETTES["BLUE-ON-TRANSPARENT"];
+    return new PaletteMatcher(definition.colors, definition.luminance);
+  }
+
+  private async resolveThresholdMap(
+    settings: Record<string, unknown>
+  ): Promise<ThresholdMap> {
+    const matrix = (settings.matrix as ThresholdMatrix) || "bayer-4";
+    const texture = settings.thresholdTexture as string;
+
+    if (matrix === "custom") {
+      // No texture uploaded yet: keep the default pattern
+      return texture
+        ? loadThresholdTexture(texture)
+        : getThresholdMap("bayer-4");
+    }
+
+    return getThresholdMap(matrix);
+  }
+
+  /**
+   * Original behaviour of the luminance palettes: `steps` sets how many gray
+   * levels are interpolated between the dark and the bright color. Temporal
+   * passes store the level instead of a palette index.
+   */
+  private applySteppedDither(
     imageData: ImageData,
     steps: number,
-    palette: RGBA[]
+    matcher: PaletteMatcher,
+    thresholdMap: ThresholdMap,
+    pass?: TemporalPass
   ): void {
     const { width, height, data } = imageData;
+    const [darkColor, brightColor] = matcher.colors;
 
     // Inverted steps logic: lower = more detail
     // levels = 13 - steps (steps=1 -> 12 levels, steps=12 -> 1 level)
@@ -325,99 +839,138 @@ export class DitheringProcessor extends BaseProcessImage {
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-
-        // Convert to grayscale
-        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-
-        // Get threshold from Bayer matrix
-        const threshold =
-          (BAYER_MATRIX_4X4[y % 4][x % 4] + 0.5) / BAYER_DIVISOR;
-
-        // Calculate level with dithering
-        const rawLevel = (gray / 255) * levels + threshold - 0.5;
-        const level = this.clamp(Math.floor(rawLevel), 0, levels - 1);
-
-        // Map level to target gray
-        const targetGray = levels > 1 ? (level / (levels - 1)) * 255 : 0;
-
-        // Interpolate between palette colors (2-color palette)
-        const t = targetGray / 255;
-        const darkColor = palette[0];
-        const brightColor = palette[1];
+        const pos = y * width + x;
+        const idx = pos * 4;
+        let level = pass?.held?.[pos] ?? -1;
+
+        if (level < 0 || level >= levels) {
+          // Convert to grayscale
+          const gray =
+            0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+
+          // Calculate level with dithering
+          const rawLevel =
+            (gray / 255) * levels + getThreshold(thresholdMap, x, y) - 0.5;
+          level = this.clamp(Math.floor(rawLevel), 0, levels - 1);
+        }
+        if (pass) pass.indices[pos] = level;
 
-        data[idx] = this.clamp(
-          Math.round(darkColor[0] + (brightColor[0] - darkColor[0]) * t),
-          0,
-          255
-        );
-        data[idx + 1] = this.clamp(
-          Math.round(darkColor[1] + (brightColor[1] - darkColor[1]) * t),
-          0,
-          255
-        );
-        data[idx + 2] = this.clamp(
-          Math.round(darkColor[2] + (brightColor[2] - darkColor[2]) * t),
-          0,
-          255
-        );
-        data[idx + 3] = this.clamp(
-          Math.round(darkColor[3] + (brightColor[3] - darkColor[3]) * t),
-          0,
-          255
-        );
+        // Interpolate between the two palette colors
+        const t = levels > 1 ? level / (levels - 1) : 0;
+        for (let c = 0; c < 4; c++) {
+          data[idx + c] = this.clamp(
+            Math.round(darkColor[c] + (brightColor[c] - darkColor[c]) * t),
+            0,
+            255
+          );
+        }
       }
     }
   }
 
-  private applyPaletteQuantization(
+  /* Color palettes: the threshold shifts each pixel before snapping */
+  private applyOrderedDither(
     imageData: ImageData,
-    palette: RGBA[]
+    spread: number,
+    matcher: PaletteMatcher,
+    thresholdMap: ThresholdMap,
+    pass?: TemporalPass
   ): void {
     const { width, height, data } = imageData;
+    const { dims } = matcher;
+    const pixel = new Float32Array(dims);
+    const range = 255 * spread;
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
+        const pos = y * width + x;
+        const idx = pos * 4;
+        let index = pass?.held?.[pos] ?? -1;
 
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-        const a = data[idx + 3];
+        if (index < 0) {
+          // Threshold tiles across the image
+          const offset = range * (getThreshold(thresholdMap, x, y) - 0.5);
 
-        // Find nearest color in palette
-        const bestColor = this.findNearestColor([r, g, b, a], palette);
+          matcher.read(data, idx, pixel, 0);
+          for (let c = 0; c < dims; c++) pixel[c] += offset;
+          index = matcher.nearest(pixel, 0);
+        }
 
-        data[idx] = bestColor[0];
-        data[idx + 1] = bestColor[1];
-        data[idx + 2] = bestColor[2];
-        data[idx + 3] = bestColor[3];
+        if (pass) pass.indices[pos] = index;
+        matcher.write(data, idx, index);
       }
     }
   }
 
-  private findNearestColor(color: RGBA, palette: RGBA[]): RGBA {
-    let best = palette[0];
-    let bestDist = Number.POSITIVE_INFINITY;
+  private applyErrorDiffusion(
+    imageData: ImageData,
+    matcher: PaletteMatcher,
+    kernel: DiffusionKernel,
+    serpentine: boolean,
+    strength: number,
+    pass?: TemporalPass
+  ): void {
+    const { width, height, data } = imageData;
+    const { dims } = matcher;
+
+    // Work on a float buffer in match space so the error can accumulate
+    const buffer = new Float32Array(width * height * dims);
+    for (let i = 0; i < width * height; i++) {
+      matcher.read(data, i * 4, buffer, i * dims);
+    }
 
-    for (const candidate of palette) {
-      const dr = candidate[0] - color[0];
-      const dg = candidate[1] - color[1];
-      const db = candidate[2] - color[2];
-      const da = candidate[3] - color[3];
-      const dist = dr * dr + dg * dg + db * db + da * da;
+    for (let y = 0; y < height; y++) {
+      // Serpentine: odd rows run right-to-left with a mirrored kernel
+      const reverse = serpentine && y % 2 === 1;
+      const direction = reverse ? -1 : 1;
+
+      for (let i = 0; i < width; i++) {
+        const x = reverse ? width - 1 - i : i;
+        const pos = y * width + x;
+        // Held pixels still pass on their error, so neighbours stay balanced
+        const heldIndex = pass?.held?.[pos] ?? -1;
+        const index =
+          heldIndex >= 0 ? heldIndex : matcher.nearest(buffer, pos * dims);
+        if (pass) pass.indices[pos] = index;
+
+        for (let c = 0; c < dims; c++) {
+          const error =
+            (buffer[pos * dims + c] - matcher.target(index, c)) * strength;
+          if (error === 0) continue;
+
+          for (const [dx, dy, weight] of kernel.weights) {
+            const nx = x + dx * direction;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny >= height) continue;
+            buffer[(ny * width + nx) * dims + c] +=
+              (error * weight) / kernel.divisor;
+          }
+        }
 
-      if (dist < bestDist) {
-        bestDist = dist;
-        best = candidate;
+        matcher.write(data, pos * 4, index);
       }
     }
+  }
+
+  private applyPaletteQuantization(
+    imageData: ImageData,
+    matcher: PaletteMatcher,
+    pass?: TemporalPass
+  ): void {
+    const { width, height, data } = imageData;
+    const pixel = new Float32Array(matcher.dims);
 
-    return best;
+    for (let i = 0; i < width * height; i++) {
+      let index = pass?.held?.[i] ?? -1;
+      if (index < 0) {
+        // Find nearest color in palette
+        matcher.read(data, i * 4, pixel, 0);
+        index = matcher.nearest(pixel, 0);
+      }
+
+      if (pass) pass.indices[i] = index;
+      matcher.write(data, i * 4, index);
+    }
   }
 
   private clamp(value: number, min: number, max: number): number {
@@ -8,16 +8,152 @@ import {
   type ProcessorPreset,
   type SettingDefinition,
 } from "../base-processor";
+import { getLuminance, parseHexColor, type RGBA } from "../color";
+import type { VectorImage, VectorShape } from "../vector";
 
 /* TYPES */
 type HalftoneShape = "circle" | "square" | "diamond";
 type HalftoneColor = "BLACK" | "WHITE" | "BLUE" | "CUSTOM";
+type HalftoneMode = "mono" | "cmyk" | "rgb";
+type ScreenChannel = "c" | "m" | "y" | "k";
 
-const COLORS: Record<HalftoneColor, [number, number, number, number]> = {
+/* CUSTOM resolves to the matching color setting */
+const COLORS: Record<Exclude<HalftoneColor, "CUSTOM">, RGBA> = {
   BLACK: [0, 0, 0, 255],
   WHITE: [255, 255, 255, 255],
   BLUE: [59, 130, 245, 255],
-  CUSTOM: [0, 0, 0, 255],
+};
+
+/* DOT - center and radius in image pixels */
+interface Dot {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/* LAYOUT - resolved dot grids, rendered as raster or vector */
+interface HalftoneLayout {
+  shape: HalftoneShape;
+  antialias: boolean;
+  background: RGBA;
+  blend: "normal" | "multiply" | "screen";
+  screens: { ink: RGBA; dots: Dot[] }[];
+}
+
+/* SCREEN - one dot grid, with ink amount (0-1) taken from the sampled color */
+interface Screen {
+  channel: ScreenChannel;
+  ink: RGBA;
+  amount: (r: number, g: number, b: number) => number;
+}
+
+/* Subtractive separation with full black replacement */
+const CMYK_SCREENS: Screen[] = [
+  {
+    channel: "c",
+    ink: [0, 255, 255, 255],
+    amount: (r, g, b) => separate(r, g, b, r),
+  },
+  {
+    channel: "m",
+    ink: [255, 0, 255, 255],
+    amount: (r, g, b) => separate(r, g, b, g),
+  },
+  {
+    channel: "y",
+    ink: [255, 255, 0, 255],
+    amount: (r, g, b) => separate(r, g, b, b),
+  },
+  {
+    channel: "k",
+    ink: [0, 0, 0, 255],
+    amount: (r, g, b) => 1 - Math.max(r, g, b) / 255,
+  },
+];
+
+/* Additive screens reuse the C/M/Y settings for their complements */
+const RGB_SCREENS: Screen[] = [
+  { channel: "c", ink: [255, 0, 0, 255], amount: (r) => r / 255 },
+  { channel: "m", ink: [0, 255, 0, 255], amount: (_r, g) => g / 255 },
+  { channel: "y", ink: [0, 0, 255, 255], amount: (_r, _g, b) => b / 255 },
+];
+
+/* DOT RENDERING */
+const DIAMOND_SCALE = 1.4;
+const SUPERSAMPLE = 4;
+const HALF_PIXEL_DIAGONAL = Math.SQRT1_2;
+const MIN_ANTIALIAS_RADIUS = 0.05;
+
+const DEFAULT_SCREEN_ANGLES: Record<ScreenChannel, number> = {
+  c: 15,
+  m: 75,
+  y: 0,
+  k: 45,
+};
+
+const CHANNEL_LABELS: Record<ScreenChannel, string> = {
+  c: "Cyan",
+  m: "Magenta",
+  y: "Yellow",
+  k: "Black",
+};
+
+const RGB_LABELS: Partial<Record<ScreenChannel, string>> = {
+  c: "red",
+  m: "green",
+  y: "blue",
+};
+
+function separate(r: number, g: number, b: number, value: number): number {
+  const k = 1 - Math.max(r, g, b) / 255;
+  if (k >= 1) return 0;
+  return (1 - value / 255 - k) / (1 - k);
+}
+
+/* Angle and dot size settings for every screen channel */
+function createScreenSettings(): SettingDefinition[] {
+  return (["c", "m", "y", "k"] as ScreenChannel[]).flatMap((channel) => {
+    const name = CHANNEL_LABELS[channel];
+    const rgbName = RGB_LABELS[channel];
+    const modes = rgbName ? ["cmyk", "rgb"] : ["cmyk"];
+    const suffix = rgbName ? ` (${rgbName} in RGB mode)` : "";
+
+    return [
+      {
+        id: `angle_${channel}`,
+        type: "range",
+        label: `${name} Angle`,
+        description: `Screen angle for ${name.toLowerCase()}${suffix}`,
+        default: DEFAULT_SCREEN_ANGLES[channel],
+        min: 0,
+        max: 90,
+        step: 5,
+        visibleWhen: { id: "mode", values: modes },
+      },
+      {
+        id: `dotSize_${channel}`,
+        type: "range",
+        label: `${name} Dot Size`,
+        description: `Maximum dot size for ${name.toLowerCase()}${suffix}`,
+        default: 8,
+        min: 2,
+        max: 20,
+        step: 1,
+        visibleWhen: { id: "mode", values: modes },
+      },
+    ];
+  });
+}
+
+const SCREEN_PRESET_SETTINGS = {
+  angle_c: 15,
+  angle_m: 75,
+  angle_y: 0,
+  angle_k: 45,
+  dotSize_c: 8,
+  dotSize_m: 8,
+  dotSize_y: 8,
+  dotSize_k: 8,
 };
 
 export class HalftoneProcessor extends BaseProcessImage {
@@ -26,7 +162,14 @@ export class HalftoneProcessor extends BaseProcessImage {
     name: "Halftone",
     description: "Create newspaper-style dot pattern effect.",
     icon: "",
-    mp4support: false,
+    mp4support: true,
+    video: {
+      // Dot centers only depend on the frame size, spacing and angle
+      reuseGeometry: true,
+      notes: [
+        "Fine detail can make dots pulse between frames, a larger spacing calms it",
+      ],
+    },
   };
 
   readonly presets: ProcessorPreset[] = [
@@ -38,9 +181,14 @@ export class HalftoneProcessor extends BaseProcessImage {
         dotSize: 6,
         spacing: 8,
         shape: "circle",
+        antialias: false,
+        mode: "mono",
         color: "BLACK",
         background: "WHITE",
+        customColor: "#000000",
+        customBackground: "#ffffff",
         angle: 45,
+        ...SCREEN_PRESET_SETTINGS,
       },
     },
     {
@@ -51,9 +199,14 @@ export class HalftoneProcessor extends BaseProcessImage {
         dotSize: 10,
         spacing: 12,
         shape: "circle",
+        antialias: false,
+        mode: "mono",
         color: "BLUE",
         background: "WHITE",
+        customColor: "#000000",
+        customBackground: "#ffffff",
         angle: 0,
+        ...SCREEN_PRESET_SETTINGS,
       },
     },
     {
@@ -64,14 +217,67 @@ export class HalftoneProcessor extends BaseProcessImage {
         dotSize: 3,
         spacing: 4,
         shape: "circle",
+        antialias: false,
+        mode: "mono",
         color: "BLACK",
         background: "WHITE",
+        customColor: "#000000",
+        customBackground: "#ffffff",
         angle: 30,
+        ...SCREEN_PRESET_SETTINGS,
+      },
+    },
+    {
+      id: "cmyk-print",
+      name: "CMYK Print",
+      description: "Four-color process print with rotated screens",
+      settings: {
+        dotSize: 6,
+        spacing: 6,
+        shape: "circle",
+        antialias: true,
+        mode: "cmyk",
+        color: "BLACK",
+        background: "WHITE",
+        customColor: "#000000",
+        customBackground: "#ffffff",
+        angle: 45,
+        ...SCREEN_PRESET_SETTINGS,
+      },
+    },
+    {
+      id: "rgb-screen",
+      name: "RGB Screen",
+      description: "Additive red, green and blue dots on black",
+      settings: {
+        dotSize: 6,
+        spacing: 6,
+        shape: "circle",
+        antialias: true,
+        mode: "rgb",
+        color: "BLACK",
+        background: "BLACK",
+        customColor: "#000000",
+        customBackground: "#ffffff",
+        angle: 45,
+        ...SCREEN_PRESET_SETTINGS,
       },
     },
   ];
 
   readonly settings: SettingDefinition[] = [
+    {
+      id: "mode",
+      type: "select",
+      label: "Color Mode",
+      description: "Single dot color, or separate color screens",
+      default: "mono",
+      options: [
+        { value: "mono", label: "Single Color" },
+        { value: "cmyk", label: "CMYK (Print)" },
+        { value: "rgb", label: "RGB (Screen)" },
+      ],
+    },
     {
       id: "dotSize",
       type: "range",
@@ -81,6 +287,7 @@ export class HalftoneProcessor extends BaseProcessImage {
       min: 2,
       max: 20,
       step: 1,
+      visibleWhen: { id: "mode", values: ["mono"] },
     },
     {
       id: "spacing",
@@ -104,6 +311,13 @@ export class HalftoneProcessor extends BaseProcessImage {
         { value: "diamond", label: "Diamond" },
       ],
     },
+    {
+      id: "antialias",
+      type: "checkbox",
+      label: "Anti-aliasing",
+      description: "Smooth dot edges (off keeps crisp pixel dots)",
+      default: false,
+    },
     {
       id: "color",
       type: "select",
@@ -114,7 +328,17 @@ export class HalftoneProcessor extends BaseProcessImage {
         { value: "BLACK", label: "Black" },
         { value: "WHITE", label: "White" },
         { value: "BLUE", label: "Blue" },
+        { value: "CUSTOM", label: "Custom" },
       ],
+      visibleWhen: { id: "mode", values: ["mono"] },
+    },
+    {
+      id: "customColor",
+      type: "color",
+      label: "Custom Dot Color",
+      description: "Dot color, including its transparency",
+      default: "#000000",
+      visibleWhen: { id: "color", values: ["CUSTOM"] },
     },
     {
       id: "background",
@@ -126,8 +350,17 @@ export class HalftoneProcessor extends BaseProcessImage {
         { value: "WHITE", label: "White" },
         { value: "BLACK", label: "Black" },
         { value: "TRANSPARENT", label: "Transparent" },
+        { value: "CUSTOM", label: "Custom" },
       ],
     },
+    {
+      id: "customBackground",
+      type: "color",
+      label: "Custom Background",
+      description: "Background color, including its transparency",
+      default: "#ffffff",
+      visibleWhen: { id: "background", values: ["CUSTOM"] },
+    },
     {
       id: "angle",
       type: "range",
@@ -137,37 +370,219 @@ export class HalftoneProcessor extends BaseProcessImage {
       min: 0,
       max: 90,
       step: 5,
+      visibleWhen: { id: "mode", values: ["mono"] },
     },
+    ...createScreenSettings(),
   ];
 
   async process(
     imageData: ImageData,
     settings: Record<string, unknown>
   ): Promise<ImageData> {
+    const { width, height } = imageData;
+    const layout = this.createLayout(imageData, settings);
+
+    const layers = layout.screens.map(({ ink, dots }) => {
+      const coverage = new Float32Array(width * height);
+      for (const dot of dots) {
+        this.drawDot(
+          coverage,
+          width,
+          height,
+          dot.x,
+          dot.y,
+          dot.radius,
+          layout.shape,
+          layout.antialias
+        );
+      }
+      return { ink, coverage };
+    });
+
+    // Single color lays its ink over the background, color screens blend
+    if (layout.blend === "normal") {
+      return this.compositeOver(
+        layers[0].coverage,
+        layers[0].ink,
+        layout.background,
+        width,
+        height
+      );
+    }
+
+    return this.compositeInks(
+      layers,
+      layout.background,
+      layout.blend === "screen",
+      width,
+      height
+    );
+  }
+
+  getProxySettings(
+    settings: Record<string, unknown>,
+    scale: number
+  ): Record<string, unknown> {
+    return this.scalePixelSettings(
+      settings,
+      [
+        "dotSize",
+        "spacing",
+        ...Object.keys(CHANNEL_LABELS).map((channel) => `dotSize_${channel}`),
+      ],
+      scale
+    );
+  }
+
+  async processVector(
+    imageData: ImageData,
+    settings: Record<string, unknown>
+  ): Promise<VectorImage> {
+    const { width, height } = imageData;
+    const layout = this.createLayout(imageData, settings);
+
+    return {
+      width,
+      height,
+      background: layout.background,
+      crispEdges: !layout.antialias,
+      layers: layout.screens.map(({ ink, dots }) => ({
+        fill: ink,
+        blend: layout.blend,
+        shapes: dots.map((dot) => this.dotToShape(dot, layout.shape)),
+      })),
+    };
+  }
+
+  /* Resolve settings into dot grids, shared by raster and vector output */
+  private createLayout(
+    imageData: ImageData,
+    settings: Record<string, unknown>
+  ): HalftoneLayout {
     const dotSize = Math.max(2, Math.round((settings.dotSize as number) || 6));
     const spacing = Math.max(3, Math.round((settings.spacing as number) || 8));
     const shape = (settings.shape as HalftoneShape) || "circle";
+    const mode = (settings.mode as HalftoneMode) || "mono";
     const colorKey = (settings.color as HalftoneColor) || "BLACK";
     const backgroundKey = (settings.background as string) || "WHITE";
-    const angle = ((settings.angle as number) || 45) * (Math.PI / 180);
+    // `||` on purpose: saved settings with angle 0 have always rendered at 45
+    const angle = (settings.angle as number) || 45;
+    // Opt-in, so settings saved before it existed keep their crisp dots
+    const antialias = settings.antialias === true;
 
-    const { width, height, data } = imageData;
-    const result = new Uint8ClampedArray(width * height * 4);
+    // Anti-aliased dots fade out instead of popping at half a pixel
+    const minRadius = antialias ? MIN_ANTIALIAS_RADIUS : 0.5;
 
-    // Fill background
-    const bgColor =
+    const background: RGBA =
       backgroundKey === "TRANSPARENT"
         ? [0, 0, 0, 0]
-        : COLORS[backgroundKey as HalftoneColor] || COLORS.WHITE;
+        : this.resolveColor(
+            backgroundKey,
+            settings.customBackground,
+            COLORS.WHITE
+          );
 
-    for (let i = 0; i < result.length; i += 4) {
-      result[i] = bgColor[0];
-      result[i + 1] = bgColor[1];
-      result[i + 2] = bgColor[2];
-      result[i + 3] = bgColor[3];
+    // Single color: one screen driven by darkness
+    if (mode === "mono") {
+      return {
+        shape,
+        antialias,
+        background,
+        blend: "normal",
+        screens: [
+          {
+            ink: this.resolveColor(
+              colorKey,
+              settings.customColor,
+              COLORS.BLACK
+            ),
+            dots: this.collectDots(
+              imageData,
+              spacing,
+              angle,
+              dotSize,
+              (r, g, b) => (255 - getLuminance(r, g, b)) / 255,
+              minRadius
+            ),
+          },
+        ],
+      };
     }
 
-    const dotColor = COLORS[colorKey];
+    // Color: one screen per channel, each with its own angle and dot size
+    const screens = mode === "rgb" ? RGB_SCREENS : CMYK_SCREENS;
+    return {
+      shape,
+      antialias,
+      background,
+      blend: mode === "rgb" ? "screen" : "multiply",
+      screens: screens.map((screen) => ({
+        ink: screen.ink,
+        dots: this.collectDots(
+          imageData,
+          spacing,
+          (settings[`angle_${screen.channel}`] as number) ??
+            DEFAULT_SCREEN_ANGLES[screen.channel],
+          Math.max(
+            2,
+            Math.round((settings[`dotSize_${screen.channel}`] as number) || 8)
+          ),
+          screen.amount,
+          minRadius
+        ),
+      })),
+    };
+  }
+
+  /* Place one rotated dot grid, sizing each dot from the image */
+  private collectDots(
+    imageData: ImageData,
+    spacing: number,
+    angleDegrees: number,
+    dotSize: number,
+    amount: Screen["amount"],
+    minRadius: number
+  ): Dot[] {
+    const { width, height, data } = imageData;
+    const dots: Dot[] = [];
+    const points = this.reuseGeometry(
+      `${width}x${height}:${spacing}:${angleDegrees}`,
+      () => this.gridPoints(width, height, spacing, angleDegrees)
+    );
+
+    for (let i = 0; i < points.length; i += 2) {
+      const px = points[i];
+      const py = points[i + 1];
+
+      // Sample color at this point (average of small area)
+      const [r, g, b] = this.sampleColor(
+        data,
+        width,
+        height,
+        px,
+        py,
+        spacing / 2
+      );
+
+      // Calculate dot radius from the ink amount (more ink = bigger dot)
+      const radius = this.clamp(amount(r, g, b), 0, 1) * (dotSize / 2);
+
+      if (radius >= minRadius) dots.push({ x: px, y: py, radius });
+    }
+
+    return dots;
+  }
+
+  /* Grid centers inside the image as x, y pairs */
+  private gridPoints(
+    width: number,
+    height: number,
+    spacing: number,
+    angleDegrees: number
+  ): Float64Array {
+    const points: number[] = [];
+
+    const angle = angleDegrees * (Math.PI / 180);
     const cosA = Math.cos(angle);
     const sinA = Math.sin(angle);
 
@@ -193,39 +608,142 @@ export class HalftoneProcessor extends BaseProcessImage {
 
         // Skip if outside image
         if (px < 0 || px >= width || py < 0 || py >= height) continue;
+        points.push(px, py);
+      }
+    }
 
-        // Sample brightness at this point (average of small area)
-        const brightness = this.sampleBrightness(
-          data,
-          width,
-          height,
-          px,
-          py,
-          spacing / 2
-        );
+    return new Float64Array(points);
+  }
+
+  private dotToShape(dot: Dot, shape: HalftoneShape): VectorShape {
+    const { x, y, radius } = dot;
+
+    switch (shape) {
+      case "square":
+        return {
+          type: "rect",
+          x: x - radius,
+          y: y - radius,
+          width: radius * 2,
+          height: radius * 2,
+        };
+      case "diamond": {
+        const extent = radius * DIAMOND_SCALE;
+        return {
+          type: "polygon",
+          points: [
+            [x, y - extent],
+            [x + extent, y],
+            [x, y + extent],
+            [x - extent, y],
+          ],
+        };
+      }
+      default:
+        return { type: "circle", cx: x, cy: y, r: radius };
+    }
+  }
 
-        // Calculate dot radius based on brightness (darker = bigger dot)
-        const radius = ((255 - brightness) / 255) * (dotSize / 2);
+  /* Single ink laid over the background */
+  private compositeOver(
+    coverage: Float32Array,
+    ink: RGBA,
+    background: RGBA,
+    width: number,
+    height: number
+  ): ImageData {
+    const result = new Uint8ClampedArray(width * height * 4);
+    const bgAlpha = background[3] / 255;
 
-        if (radius < 0.5) continue;
+    for (let i = 0; i < coverage.length; i++) {
+      const inkAlpha = (ink[3] / 255) * coverage[i];
+      const alpha = inkAlpha + bgAlpha * (1 - inkAlpha);
+      const idx = i * 4;
 
-        // Draw the dot
-        this.drawDot(result, width, height, px, py, radius, shape, dotColor);
+      for (let c = 0; c < 3; c++) {
+        result[idx + c] =
+          alpha > 0
+            ? (ink[c] * inkAlpha + background[c] * bgAlpha * (1 - inkAlpha)) /
+              alpha
+            : 0;
       }
+      result[idx + 3] = alpha * 255;
     }
 
     return new ImageData(result, width, height);
   }
 
-  private sampleBrightness(
+  /*
+   * Several inks combined: subtractive (multiply, like ink on paper) or
+   * additive (screen, like light). On a see-through background the inks
+   * keep their combined color and coverage becomes alpha.
+   */
+  private compositeInks(
+    layers: { ink: RGBA; coverage: Float32Array }[],
+    background: RGBA,
+    additive: boolean,
+    width: number,
+    height: number
+  ): ImageData {
+    const length = width * height;
+    const result = new Uint8ClampedArray(length * 4);
+    const paper = background[3] === 255;
+    const bgAlpha = background[3] / 255;
+
+    for (let i = 0; i < length; i++) {
+      const idx = i * 4;
+
+      // Share of the pixel left uncovered by every ink
+      let uncovered = 1;
+      for (const { coverage } of layers) uncovered *= 1 - coverage[i];
+      const alpha = 1 - uncovered;
+      const outAlpha = alpha + bgAlpha * (1 - alpha);
+
+      for (let c = 0; c < 3; c++) {
+        // Ink mix starting from white paper (subtractive) or black (additive)
+        let mix = 1;
+        for (const { ink, coverage } of layers) {
+          const value = ink[c] / 255;
+          mix *= 1 - coverage[i] * (additive ? value : 1 - value);
+        }
+
+        const bg = background[c] / 255;
+        let value: number;
+        if (paper) {
+          value = additive ? 1 - (1 - bg) * mix : bg * mix;
+        } else {
+          // Ink layer on its own, then laid over the background
+          const ink =
+            alpha > 0
+              ? additive
+                ? (1 - mix) / alpha
+                : (mix - uncovered) / alpha
+              : 0;
+          value =
+            outAlpha > 0
+              ? (ink * alpha + bg * bgAlpha * (1 - alpha)) / outAlpha
+              : 0;
+        }
+
+        result[idx + c] = this.clamp(value, 0, 1) * 255;
+      }
+      result[idx + 3] = outAlpha * 255;
+    }
+
+    return new ImageData(result, width, height);
+  }
+
+  private sampleColor(
     data: Uint8ClampedArray,
     width: number,
     height: number,
     px: number,
     py: number,
     radius: number
-  ): number {
-    let total = 0;
+  ): [number, number, number] {
+    let r = 0;
+    let g = 0;
+    let b = 0;
     let count = 0;
 
     const minX = Math.max(0, Math.floor(px - radius));
@@ -236,57 +754,100 @@ export class HalftoneProcessor extends BaseProcessImage {
     for (let y = minY; y <= maxY; y++) {
       for (let x = minX; x <= maxX; x++) {
         const idx = (y * width + x) * 4;
-        const gray =
-          0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-        total += gray;
+        r += data[idx];
+        g += data[idx + 1];
+        b += data[idx + 2];
         count++;
       }
     }
 
-    return count > 0 ? total / count : 255;
+    return count > 0 ? [r / count, g / count, b / count] : [255, 255, 255];
   }
 
   private drawDot(
-    result: Uint8ClampedArray,
+    coverage: Float32Array,
     width: number,
     height: number,
     cx: number,
     cy: number,
     radius: number,
     shape: HalftoneShape,
-    color: [number, number, number, number]
+    antialias: boolean
   ): void {
-    const minX = Math.max(0, Math.floor(cx - radius));
-    const maxX = Math.min(width - 1, Math.ceil(cx + radius));
-    const minY = Math.max(0, Math.floor(cy - radius));
-    const maxY = Math.min(height - 1, Math.ceil(cy + radius));
+    // Diamonds reach further than their radius along the axes (crisp dots
+    // keep the original radius bounds, which trim the diamond tips)
+    const extent =
+      shape === "diamond" && antialias ? radius * DIAMOND_SCALE : radius;
+    const minX = Math.max(0, Math.floor(cx - extent));
+    const maxX = Math.min(width - 1, Math.ceil(cx + extent));
+    const minY = Math.max(0, Math.floor(cy - extent));
+    const maxY = Math.min(height - 1, Math.ceil(cy + extent));
+
+    // Anti-aliased dots measure from the pixel center, crisp dots keep the
+    // original top-left origin so their output stays unchanged
+    const origin = antialias ? 0.5 : 0;
 
     for (let y = minY; y <= maxY; y++) {
       for (let x = minX; x <= maxX; x++) {
-        const dx = x - cx;
-        const dy = y - cy;
-        let inside = false;
-
-        switch (shape) {
-          case "circle":
-            inside = dx * dx + dy * dy <= radius * radius;
-            break;
-          case "square":
-            inside = Math.abs(dx) <= radius && Math.abs(dy) <= radius;
-            break;
-          case "diamond":
-            inside = Math.abs(dx) + Math.abs(dy) <= radius * 1.4;
-            break;
-        }
+        const dx = x + origin - cx;
+        const dy = y + origin - cy;
+        const distance = this.dotDistance(dx, dy, radius, shape);
+        let value: number;
 
-        if (inside) {
-          const idx = (y * width + x) * 4;
-          result[idx] = color[0];
-          result[idx + 1] = color[1];
-          result[idx + 2] = color[2];
-          result[idx + 3] = color[3];
+        if (!antialias) {
+          value = distance <= 0 ? 1 : 0;
+        } else if (distance <= -HALF_PIXEL_DIAGONAL) {
+          value = 1;
+        } else if (distance >= HALF_PIXEL_DIAGONAL) {
+          value = 0;
+        } else {
+          // Edge pixel: count sub-samples inside the dot
+          let inside = 0;
+          for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+            for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+              const ox = (sx + 0.5) / SUPERSAMPLE - 0.5;
+              const oy = (sy + 0.5) / SUPERSAMPLE - 0.5;
+              if (this.dotDistance(dx + ox, dy + oy, radius, shape) <= 0) {
+                inside++;
+              }
+            }
+          }
+          value = inside / (SUPERSAMPLE * SUPERSAMPLE);
         }
+
+        const idx = y * width + x;
+        if (value > coverage[idx]) coverage[idx] = value;
       }
     }
   }
+
+  /* Signed distance from a point to the dot edge (negative = inside) */
+  private dotDistance(
+    dx: number,
+    dy: number,
+    radius: number,
+    shape: HalftoneShape
+  ): number {
+    switch (shape) {
+      case "square":
+        return Math.max(Math.abs(dx), Math.abs(dy)) - radius;
+      case "diamond":
+        return (
+          (Math.abs(dx) + Math.abs(dy) - radius * DIAMOND_SCALE) / Math.SQRT2
+        );
+      default:
+        return Math.sqrt(dx * dx + dy * dy) - radius;
+    }
+  }
+
+  private resolveColor(key: string, custom: unknown, fallback: RGBA): RGBA {
+    if (key === "CUSTOM") {
+      return (typeof custom === "string" && parseHexColor(custom)) || fallback;
+    }
+    return COLORS[key as keyof typeof COLORS] || fallback;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
 }
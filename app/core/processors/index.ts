@@ -6,12 +6,14 @@ import { BaseProcessImage } from "../base-processor";
 import { DitheringProcessor } from "./dithering";
 import { PixelateProcessor } from "./pixelate";
 import { HalftoneProcessor } from "./halftone";
+import { PipelineProcessor } from "./pipeline";
 
 /* PROCESSOR INSTANCES */
 const processors: BaseProcessImage[] = [
   new DitheringProcessor(),
   new PixelateProcessor(),
   new HalftoneProcessor(),
+  new PipelineProcessor(() => processors),
 ];
 
 /* GET ALL PROCESSORS */
@@ -24,4 +26,9 @@ export function getProcessor(id: string): BaseProcessImage | undefined {
   return processors.find((p) => p.config.id === id);
 }
 
-export { DitheringProcessor, PixelateProcessor, HalftoneProcessor };
+export {
+  DitheringProcessor,
+  PixelateProcessor,
+  HalftoneProcessor,
+  PipelineProcessor,
+};
@@ -0,0 +1,215 @@
+// ================================================================
+// ---------------------- PIPELINE PROCESSOR ----------------------
+// ================================================================
+
+import {
+  BaseProcessImage,
+  type FrameOutput,
+  type FrameState,
+  type ProcessorConfig,
+  type ProcessorPreset,
+  type SettingDefinition,
+} from "../base-processor";
+
+/* TYPES */
+export interface PipelineStep {
+  /** Stable key for the step within its pipeline */
+  id: string;
+  processorId: string;
+  settings: Record<string, unknown>;
+  enabled: boolean;
+}
+
+/* Built-in stacks reference existing presets of each effect */
+const PIPELINE_PRESETS: {
+  id: string;
+  name: string;
+  description: string;
+  steps: { processorId: string; presetId: string }[];
+}[] = [
+  {
+    id: "pixel-dither",
+    name: "Pixel Dither",
+    description: "Pixelate, then dither to the Game Boy palette",
+    steps: [
+      { processorId: "pixelate", presetId: "retro-8bit" },
+      { processorId: "dithering", presetId: "game-boy" },
+    ],
+  },
+  {
+    id: "print-stack",
+    name: "Print Stack",
+    description: "Posterized blocks under a CMYK halftone screen",
+    steps: [
+      { processorId: "pixelate", presetId: "mosaic" },
+      { processorId: "halftone", presetId: "cmyk-print" },
+    ],
+  },
+];
+
+let stepCounter = 0;
+
+export function getPipelineSteps(
+  settings: Record<string, unknown>
+): PipelineStep[] {
+  return Array.isArray(settings.steps)
+    ? (settings.steps as PipelineStep[])
+    : [];
+}
+
+/**
+ * Runs an ordered list of other processors, each with its own settings.
+ * Processors are looked up lazily so the pipeline can live in the same
+ * registry as the effects it chains.
+ */
+export class PipelineProcessor extends BaseProcessImage {
+  readonly config: ProcessorConfig = {
+    id: "pipeline",
+    name: "Effect Stack",
+    description:
+      "Chain several effects into one pipeline and save it as a recipe.",
+    icon: "",
+    mp4support: true,
+  };
+
+  readonly settings: SettingDefinition[] = [
+    {
+      id: "steps",
+      type: "pipeline",
+      label: "Steps",
+      description: "Effects are applied from top to bottom",
+      default: [],
+    },
+  ];
+
+  private readonly getProcessors: () => BaseProcessImage[];
+  private cachedPresets: ProcessorPreset[] | null = null;
+
+  constructor(getProcessors: () => BaseProcessImage[]) {
+    super();
+    this.getProcessors = getProcessors;
+  }
+
+  get presets(): ProcessorPreset[] {
+    this.cachedPresets ??= PIPELINE_PRESETS.map((preset) => ({
+      id: preset.id,
+      name: preset.name,
+      description: preset.description,
+      settings: {
+        steps: preset.steps.map(({ processorId, presetId }, index) => ({
+          id: `${preset.id}-${index}`,
+          processorId,
+          settings: {
+            ...this.getProcessor(processorId)?.getPreset(presetId)?.settings,
+          },
+          enabled: true,
+        })),
+      },
+    }));
+    return this.cachedPresets;
+  }
+
+  async process(
+    imageData: ImageData,
+    settings: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ImageData> {
+    let result = imageData;
+
+    for (const step of getPipelineSteps(settings)) {
+      signal?.throwIfAborted();
+      if (!step.enabled) continue;
+
+      // Unknown effects (e.g. from an old recipe) are skipped
+      const processor = this.getProcessor(step.processorId);
+      if (!processor) continue;
+
+      result = await processor.process(result, step.settings, signal);
+    }
+
+    return result;
+  }
+
+  isTemporal(settings: Record<string, unknown>): boolean {
+    return getPipelineSteps(settings).some(
+      (step) =>
+        step.enabled &&
+        this.getProcessor(step.processorId)?.isTemporal(step.settings)
+    );
+  }
+
+  /* Each step keeps its own frame state, keyed by step id */
+  async processFrame(
+    imageData: ImageData,
+    settings: Record<string, unknown>,
+    previous: FrameState | null,
+    signal?: AbortSignal
+  ): Promise<FrameOutput> {
+    let result = imageData;
+    const state: Record<string, FrameState | null> = {};
+
+    for (const step of getPipelineSteps(settings)) {
+      signal?.throwIfAborted();
+      if (!step.enabled) continue;
+
+      const processor = this.getProcessor(step.processorId);
+      if (!processor) continue;
+
+      const output = await processor.processFrame(
+        result,
+        step.settings,
+        (previous?.[step.id] as FrameState | null | undefined) ?? null,
+        signal
+      );
+      result = output.imageData;
+      state[step.id] = output.state;
+    }
+
+    return { imageData: result, state };
+  }
+
+  getProxySettings(
+    settings: Record<string, unknown>,
+    scale: number
+  ): Record<string, unknown> {
+    return {
+      ...settings,
+      steps: getPipelineSteps(settings).map((step) => ({
+        ...step,
+        settings:
+          this.getProcessor(step.processorId)?.getProxySettings(
+            step.settings,
+            scale
+          ) ?? step.settings,
+      })),
+    };
+  }
+
+  /* Effects that can be used as steps (pipelines do not nest) */
+  getStepProcessors(): BaseProcessImage[] {
+    return this.getProcessors().filter(
+      (processor) => !(processor instanceof PipelineProcessor)
+    );
+  }
+
+  getProcessor(processorId: string): BaseProcessImage | undefined {
+    return this.getStepProcessors().find(
+      (processor) => processor.config.id === processorId
+    );
+  }
+
+  /* New step starting from the effect's first preset */
+  createStep(processorId: string): PipelineStep | null {
+    const processor = this.getProcessor(processorId);
+    if (!processor) return null;
+
+    return {
+      id: `step-${Date.now()}-${stepCounter++}`,
+      processorId,
+      settings: {
+        ...(processor.presets[0]?.settings ?? processor.getDefaultSettings()),
+      },
+      enabled: true,
+    };
+  }
+}
@@ -8,6 +8,26 @@ import {
   type ProcessorPreset,
   type SettingDefinition,
 } from "../base-processor";
+import { PaletteMatcher } from "../palettes";
+import {
+  QUANTIZE_METHOD_OPTIONS,
+  extractPalette,
+  type QuantizeMethod,
+} from "../quantize";
+import type { VectorImage, VectorLayer } from "../vector";
+
+/* TYPES */
+type PaletteMode = "levels" | "adaptive";
+
+function packColor(data: Uint8ClampedArray, idx: number): number {
+  return (
+    ((data[idx] << 24) |
+      (data[idx + 1] << 16) |
+      (data[idx + 2] << 8) |
+      data[idx + 3]) >>>
+    0
+  );
+}
 
 export class PixelateProcessor extends BaseProcessImage {
   readonly config: ProcessorConfig = {
@@ -15,7 +35,12 @@ export class PixelateProcessor extends BaseProcessImage {
     name: "Pixelate",
     description: "Create retro pixelated look with customizable block size.",
     icon: "",
-    mp4support: false,
+    mp4support: true,
+    video: {
+      notes: [
+        "Adaptive palettes are picked per frame, so colors can shift between frames",
+      ],
+    },
   };
 
   readonly presets: ProcessorPreset[] = [
@@ -25,7 +50,10 @@ export class PixelateProcessor extends BaseProcessImage {
       description: "Classic 8-bit game aesthetic",
       settings: {
         blockSize: 8,
+        paletteMode: "levels",
         colorLevels: 8,
+        paletteMethod: "median-cut",
+        paletteSize: 16,
         preserveAspect: true,
       },
     },
@@ -35,7 +63,10 @@ export class PixelateProcessor extends BaseProcessImage {
       description: "Large blocks, full color",
       settings: {
         blockSize: 16,
+        paletteMode: "levels",
         colorLevels: 256,
+        paletteMethod: "median-cut",
+        paletteSize: 16,
         preserveAspect: true,
       },
     },
@@ -45,7 +76,23 @@ export class PixelateProcessor extends BaseProcessImage {
       description: "Extreme pixelation with few colors",
       settings: {
         blockSize: 24,
+        paletteMode: "levels",
         colorLevels: 4,
+        paletteMethod: "median-cut",
+        paletteSize: 16,
+        preserveAspect: true,
+      },
+    },
+    {
+      id: "retro-photo",
+      name: "Retro Photo",
+      description: "16 colors learned from each photo",
+      settings: {
+        blockSize: 6,
+        paletteMode: "adaptive",
+        colorLevels: 256,
+        paletteMethod: "kmeans",
+        paletteSize: 16,
         preserveAspect: true,
       },
     },
@@ -62,6 +109,17 @@ export class PixelateProcessor extends BaseProcessImage {
       max: 32,
       step: 1,
     },
+    {
+      id: "paletteMode",
+      type: "select",
+      label: "Palette",
+      description: "How block colors are reduced",
+      default: "levels",
+      options: [
+        { value: "levels", label: "Per-channel levels" },
+        { value: "adaptive", label: "Adaptive (from image)" },
+      ],
+    },
     {
       id: "colorLevels",
       type: "range",
@@ -71,6 +129,27 @@ export class PixelateProcessor extends BaseProcessImage {
       min: 2,
       max: 256,
       step: 1,
+      visibleWhen: { id: "paletteMode", values: ["levels"] },
+    },
+    {
+      id: "paletteMethod",
+      type: "select",
+      label: "Extraction Method",
+      description: "Algorithm used to derive the palette from the image",
+      default: "median-cut",
+      options: QUANTIZE_METHOD_OPTIONS,
+      visibleWhen: { id: "paletteMode", values: ["adaptive"] },
+    },
+    {
+      id: "paletteSize",
+      type: "range",
+      label: "Palette Colors",
+      description: "Number of colors extracted from the image",
+      default: 16,
+      min: 2,
+      max: 64,
+      step: 1,
+      visibleWhen: { id: "paletteMode", values: ["adaptive"] },
     },
     {
       id: "preserveAspect",
@@ -85,6 +164,112 @@ export class PixelateProcessor extends BaseProcessImage {
     imageData: ImageData,
     settings: Record<string, unknown>
   ): Promise<ImageData> {
+    const { width, height } = imageData;
+    const preserveAspect = settings.preserveAspect !== false;
+    const { blocks, blockSize } = this.reduceBlocks(imageData, settings);
+    const { width: smallWidth, height: smallHeight, data: smallData } = blocks;
+
+    // Upscale back to original size if preserveAspect
+    if (preserveAspect) {
+      const result = new Uint8ClampedArray(width * height * 4);
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const sx = Math.min(Math.floor(x / blockSize), smallWidth - 1);
+          const sy = Math.min(Math.floor(y / blockSize), smallHeight - 1);
+
+          const srcIdx = (sy * smallWidth + sx) * 4;
+          const dstIdx = (y * width + x) * 4;
+
+          result[dstIdx] = smallData[srcIdx];
+          result[dstIdx + 1] = smallData[srcIdx + 1];
+          result[dstIdx + 2] = smallData[srcIdx + 2];
+          result[dstIdx + 3] = smallData[srcIdx + 3];
+        }
+      }
+
+      return new ImageData(result, width, height);
+    }
+
+    return blocks;
+  }
+
+  getProxySettings(
+    settings: Record<string, unknown>,
+    scale: number
+  ): Record<string, unknown> {
+    return this.scalePixelSettings(settings, ["blockSize"], scale);
+  }
+
+  async processVector(
+    imageData: ImageData,
+    settings: Record<string, unknown>
+  ): Promise<VectorImage> {
+    const preserveAspect = settings.preserveAspect !== false;
+    const { blocks, blockSize } = this.reduceBlocks(imageData, settings);
+    const { width: smallWidth, height: smallHeight, data } = blocks;
+
+    // Block edges in output units - the last row/column absorbs the remainder
+    const width = preserveAspect ? imageData.width : smallWidth;
+    const height = preserveAspect ? imageData.height : smallHeight;
+    const unit = preserveAspect ? blockSize : 1;
+    const edge = (index: number, count: number, size: number) =>
+      index >= count ? size : index * unit;
+
+    // One layer per color, each row merged into runs of equal blocks
+    const layers = new Map<number, VectorLayer>();
+
+    for (let sy = 0; sy < smallHeight; sy++) {
+      let sx = 0;
+      while (sx < smallWidth) {
+        const idx = (sy * smallWidth + sx) * 4;
+        const key = packColor(data, idx);
+        let end = sx + 1;
+        while (
+          end < smallWidth &&
+          packColor(data, (sy * smallWidth + end) * 4) === key
+        ) {
+          end++;
+        }
+
+        if (data[idx + 3] > 0) {
+          let layer = layers.get(key);
+          if (!layer) {
+            layer = {
+              fill: [data[idx], data[idx + 1], data[idx + 2], data[idx + 3]],
+              shapes: [],
+            };
+            layers.set(key, layer);
+          }
+
+          const x = edge(sx, smallWidth, width);
+          const y = edge(sy, smallHeight, height);
+          layer.shapes.push({
+            type: "rect",
+            x,
+            y,
+            width: edge(end, smallWidth, width) - x,
+            height: edge(sy + 1, smallHeight, height) - y,
+          });
+        }
+
+        sx = end;
+      }
+    }
+
+    return {
+      width,
+      height,
+      crispEdges: true,
+      layers: Array.from(layers.values()),
+    };
+  }
+
+  /* Average every block and reduce its color - one pixel per block */
+  private reduceBlocks(
+    imageData: ImageData,
+    settings: Record<string, unknown>
+  ): { blocks: ImageData; blockSize: number } {
     const blockSize = Math.max(
       2,
       Math.round((settings.blockSize as number) || 8)
@@ -93,7 +278,7 @@ export class PixelateProcessor extends BaseProcessImage {
       2,
       Math.min(256, Math.round((settings.colorLevels as number) || 256))
     );
-    const preserveAspect = settings.preserveAspect !== false;
+    const paletteMode = (settings.paletteMode as PaletteMode) || "levels";
 
     const { width, height, data } = imageData;
 
@@ -129,36 +314,54 @@ export class PixelateProcessor extends BaseProcessImage {
         }
 
         const smallIdx = (sy * smallWidth + sx) * 4;
-        smallData[smallIdx] = this.quantize(r / count, colorLevels);
-        smallData[smallIdx + 1] = this.quantize(g / count, colorLevels);
-        smallData[smallIdx + 2] = this.quantize(b / count, colorLevels);
+        smallData[smallIdx] = Math.round(r / count);
+        smallData[smallIdx + 1] = Math.round(g / count);
+        smallData[smallIdx + 2] = Math.round(b / count);
         smallData[smallIdx + 3] = Math.round(a / count);
       }
     }
 
-    // Upscale back to original size if preserveAspect
-    if (preserveAspect) {
-      const result = new Uint8ClampedArray(width * height * 4);
+    const blocks = new ImageData(smallData, smallWidth, smallHeight);
 
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const sx = Math.min(Math.floor(x / blockSize), smallWidth - 1);
-          const sy = Math.min(Math.floor(y / blockSize), smallHeight - 1);
+    // Reduce block colors
+    if (paletteMode === "adaptive") {
+      this.applyAdaptivePalette(
+        blocks,
+        (settings.paletteSize as number) || 16,
+        (settings.paletteMethod as QuantizeMethod) || "median-cut"
+      );
+    } else if (colorLevels < 256) {
+      for (let i = 0; i < smallData.length; i += 4) {
+        smallData[i] = this.quantize(smallData[i], colorLevels);
+        smallData[i + 1] = this.quantize(smallData[i + 1], colorLevels);
+        smallData[i + 2] = this.quantize(smallData[i + 2], colorLevels);
+      }
+    }
 
-          const srcIdx = (sy * smallWidth + sx) * 4;
-          const dstIdx = (y * width + x) * 4;
+    return { blocks, blockSize };
+  }
 
-          result[dstIdx] = smallData[srcIdx];
-          result[dstIdx + 1] = smallData[srcIdx + 1];
-          result[dstIdx + 2] = smallData[srcIdx + 2];
-          result[dstIdx + 3] = smallData[srcIdx + 3];
-        }
-      }
+  private applyAdaptivePalette(
+    imageData: ImageData,
+    colorCount: number,
+    method: QuantizeMethod
+  ): void {
+    const { data } = imageData;
+    const matcher = new PaletteMatcher(
+      extractPalette(imageData, colorCount, method)
+    );
+    const pixel = new Float32Array(3);
 
-      return new ImageData(result, width, height);
-    }
+    for (let i = 0; i < data.length; i += 4) {
+      // Keep block transparency, only swap the color
+      const alpha = data[i + 3];
+      if (alpha === 0) continue;
 
-    return new ImageData(smallData, smallWidth, smallHeight);
+      data[i + 3] = 255;
+      matcher.read(data, i, pixel, 0);
+      matcher.write(data, i, matcher.nearest(pixel, 0));
+      data[i + 3] = alpha;
+    }
   }
 
   private quantize(value: number, levels: number): number {
@@ -0,0 +1,328 @@
+// ================================================================
+// ---------------------- PALETTE EXTRACTION ----------------------
+// ================================================================
+
+import type { RGBA } from "./color";
+
+/* TYPES */
+export type QuantizeMethod = "median-cut" | "octree" | "kmeans";
+
+export const QUANTIZE_METHOD_OPTIONS: {
+  value: QuantizeMethod;
+  label: string;
+}[] = [
+  { value: "median-cut", label: "Median Cut" },
+  { value: "octree", label: "Octree" },
+  { value: "kmeans", label: "K-Means" },
+];
+
+/* Upper bound of pixels sampled from the image - keeps extraction fast */
+const MAX_SAMPLES = 65536;
+const KMEANS_ITERATIONS = 8;
+
+/* EXTRACT A K-COLOR PALETTE FROM IMAGE */
+export function extractPalette(
+  imageData: ImageData,
+  colorCount: number,
+  method: QuantizeMethod = "median-cut"
+): RGBA[] {
+  const samples = samplePixels(imageData);
+  const count = Math.max(1, Math.round(colorCount));
+
+  // Fully transparent input: nothing to learn from
+  if (samples.length === 0) return [[0, 0, 0, 255]];
+
+  switch (method) {
+    case "octree":
+      return octree(samples, count);
+    case "kmeans":
+      return kMeans(samples, count);
+    default:
+      return medianCut(samples, count);
+  }
+}
+
+/* Collect opaque pixels as packed RGB triplets */
+function samplePixels(imageData: ImageData): Uint8Array {
+  const { data } = imageData;
+  const total = data.length / 4;
+  const stride = Math.max(1, Math.floor(total / MAX_SAMPLES));
+  const samples = new Uint8Array(Math.ceil(total / stride) * 3);
+
+  let length = 0;
+  for (let i = 0; i < total; i += stride) {
+    const idx = i * 4;
+    if (data[idx + 3] < 128) continue;
+    samples[length++] = data[idx];
+    samples[length++] = data[idx + 1];
+    samples[length++] = data[idx + 2];
+  }
+
+  return samples.subarray(0, length);
+}
+
+// ================================================================
+// -------------------------- MEDIAN CUT --------------------------
+// ================================================================
+
+interface ColorBox {
+  indices: number[];
+  channel: number;
+  range: number;
+}
+
+function createBox(samples: Uint8Array, indices: number[]): ColorBox {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+
+  for (const i of indices) {
+    for (let c = 0; c < 3; c++) {
+      const value = samples[i * 3 + c];
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+  }
+
+  // Split along the channel with the widest spread
+  let channel = 0;
+  for (let c = 1; c < 3; c++) {
+    if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+  }
+
+  return { indices, channel, range: max[channel] - min[channel] };
+}
+
+function medianCut(samples: Uint8Array, colorCount: number): RGBA[] {
+  const all = Array.from({ length: samples.length / 3 }, (_, i) => i);
+  const boxes: ColorBox[] = [createBox(samples, all)];
+
+  while (boxes.length < colorCount) {
+    // Pick the box with the largest weighted spread
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.range * box.indices.length;
+      if (box.indices.length > 1 && score > bestScore) {
+        bestScore = score;
+        target = i;
+      }
+    });
+    if (target === -1) break;
+
+    const { indices, channel } = boxes[target];
+    indices.sort((a, b) => samples[a * 3 + channel] - samples[b * 3 + channel]);
+    const middle = indices.length >> 1;
+
+    boxes.splice(
+      target,
+      1,
+      createBox(samples, indices.slice(0, middle)),
+      createBox(samples, indices.slice(middle))
+    );
+  }
+
+  return boxes.map((box) => averageColor(samples, box.indices));
+}
+
+function averageColor(samples: Uint8Array, indices: number[]): RGBA {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+
+  for (const i of indices) {
+    r += samples[i * 3];
+    g += samples[i * 3 + 1];
+    b += samples[i * 3 + 2];
+  }
+
+  const count = Math.max(1, indices.length);
+  return [
+    Math.round(r / count),
+    Math.round(g / count),
+    Math.round(b / count),
+    255,
+  ];
+}
+
+// ================================================================
+// ---------------------------- OCTREE ----------------------------
+// ================================================================
+
+const OCTREE_DEPTH = 8;
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  children: (OctreeNode | null)[] | null;
+}
+
+function createNode(level: number): OctreeNode {
+  return {
+    r: 0,
+    g: 0,
+    b: 0,
+    count: 0,
+    children: level < OCTREE_DEPTH ? new Array(8).fill(null) : null,
+  };
+}
+
+function octree(samples: Uint8Array, colorCount: number): RGBA[] {
+  const root = createNode(0);
+  // Nodes with children, per level - candidates for reduction
+  const reducible: OctreeNode[][] = Array.from(
+    { length: OCTREE_DEPTH },
+    () => []
+  );
+  reducible[0].push(root);
+  let leafCount = 0;
+
+  for (let i = 0; i < samples.length; i += 3) {
+    const r = samples[i];
+    const g = samples[i + 1];
+    const b = samples[i + 2];
+    let node = root;
+
+    for (let level = 0; level < OCTREE_DEPTH && node.children; level++) {
+      const shift = 7 - level;
+      const index =
+        (((r >> shift) & 1) << 2) |
+        (((g >> shift) & 1) << 1) |
+        ((b >> shift) & 1);
+
+      if (!node.children[index]) {
+        const child = createNode(level + 1);
+        node.children[index] = child;
+        if (child.children) reducible[level + 1].push(child);
+        else leafCount++;
+      }
+      node = node.children[index]!;
+    }
+
+    node.r += r;
+    node.g += g;
+    node.b += b;
+    node.count++;
+  }
+
+  // Merge the deepest nodes into their parents until the palette fits
+  for (
+    let level = OCTREE_DEPTH - 1;
+    level >= 0 && leafCount > colorCount;
+    level--
+  ) {
+    const nodes = reducible[level].sort(
+      (a, b) => subtreeCount(a) - subtreeCount(b)
+    );
+
+    for (const node of nodes) {
+      if (leafCount <= colorCount) break;
+      if (!node.children) continue;
+
+      let merged = 0;
+      for (const child of node.children) {
+        if (!child) continue;
+        node.r += child.r;
+        node.g += child.g;
+        node.b += child.b;
+        node.count += child.count;
+        merged++;
+      }
+
+      node.children = null;
+      leafCount -= merged - 1;
+    }
+  }
+
+  const palette: RGBA[] = [];
+  collectLeaves(root, palette);
+  return palette.slice(0, colorCount);
+}
+
+function subtreeCount(node: OctreeNode): number {
+  if (!node.children) return node.count;
+  return node.children.reduce(
+    (sum, child) => sum + (child ? subtreeCount(child) : 0),
+    node.count
+  );
+}
+
+function collectLeaves(node: OctreeNode, palette: RGBA[]): void {
+  if (!node.children) {
+    if (node.count > 0) {
+      palette.push([
+        Math.round(node.r / node.count),
+        Math.round(node.g / node.count),
+        Math.round(node.b / node.count),
+        255,
+      ]);
+    }
+    return;
+  }
+
+  for (const child of node.children) {
+    if (child) collectLeaves(child, palette);
+  }
+}
+
+// ================================================================
+// --------------------------- K-MEANS ----------------------------
+// ================================================================
+
+function kMeans(samples: Uint8Array, colorCount: number): RGBA[] {
+  // Seed with median cut so results are deterministic between frames
+  const centroids = medianCut(samples, colorCount).map(([r, g, b]) => [
+    r,
+    g,
+    b,
+  ]);
+  const total = samples.length / 3;
+  const assignments = new Uint16Array(total);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    let changed = false;
+
+    for (let i = 0; i < total; i++) {
+      const r = samples[i * 3];
+      const g = samples[i * 3 + 1];
+      const b = samples[i * 3 + 2];
+
+      let best = 0;
+      let bestDist = Number.POSITIVE_INFINITY;
+      for (let k = 0; k < centroids.length; k++) {
+        const dr = r - centroids[k][0];
+        const dg = g - centroids[k][1];
+        const db = b - centroids[k][2];
+        const dist = dr * dr + dg * dg + db * db;
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = k;
+        }
+      }
+
+      if (assignments[i] !== best) changed = true;
+      assignments[i] = best;
+      sums[best][0] += r;
+      sums[best][1] += g;
+      sums[best][2] += b;
+      sums[best][3]++;
+    }
+
+    // Empty clusters keep their previous centroid
+    sums.forEach(([r, g, b, count], k) => {
+      if (count === 0) return;
+      centroids[k] = [r / count, g / count, b / count];
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  return centroids.map(([r, g, b]) => [
+    Math.round(r),
+    Math.round(g),
+    Math.round(b),
+    255,
+  ]);
+}
@@ -0,0 +1,286 @@
+// ================================================================
+// ------------------------ THRESHOLD MAPS ------------------------
+// ================================================================
+
+import { getLuminance } from "./color";
+
+/* TYPES */
+export type ThresholdMatrix =
+  | "bayer-2"
+  | "bayer-4"
+  | "bayer-8"
+  | "bayer-16"
+  | "clustered-4"
+  | "clustered-8"
+  | "blue-noise"
+  | "custom";
+
+export interface ThresholdMap {
+  width: number;
+  height: number;
+  /** Thresholds in (0, 1), row-major */
+  values: Float32Array;
+}
+
+export const THRESHOLD_MATRIX_OPTIONS: {
+  value: ThresholdMatrix;
+  label: string;
+}[] = [
+  { value: "bayer-2", label: "Bayer 2×2" },
+  { value: "bayer-4", label: "Bayer 4×4" },
+  { value: "bayer-8", label: "Bayer 8×8" },
+  { value: "bayer-16", label: "Bayer 16×16" },
+  { value: "clustered-4", label: "Clustered Dot 4×4" },
+  { value: "clustered-8", label: "Clustered Dot 8×8" },
+  { value: "blue-noise", label: "Blue Noise" },
+  { value: "custom", label: "Custom Texture" },
+];
+
+const BLUE_NOISE_SIZE = 64;
+const BLUE_NOISE_SIGMA = 1.5;
+
+const mapCache = new Map<string, ThresholdMap>();
+const textureCache = new Map<string, Promise<ThresholdMap>>();
+
+/* GET BUILT-IN THRESHOLD MAP (generated once, then cached) */
+export function getThresholdMap(matrix: ThresholdMatrix): ThresholdMap {
+  const cached = mapCache.get(matrix);
+  if (cached) return cached;
+
+  let map: ThresholdMap;
+  switch (matrix) {
+    case "bayer-2":
+      map = createBayerMap(2);
+      break;
+    case "bayer-8":
+      map = createBayerMap(8);
+      break;
+    case "bayer-16":
+      map = createBayerMap(16);
+      break;
+    case "clustered-4":
+      map = createClusteredDotMap(4);
+      break;
+    case "clustered-8":
+      map = createClusteredDotMap(8);
+      break;
+    case "blue-noise":
+      map = createBlueNoiseMap(BLUE_NOISE_SIZE, BLUE_NOISE_SIGMA);
+      break;
+    default:
+      map = createBayerMap(4);
+  }
+
+  mapCache.set(matrix, map);
+  return map;
+}
+
+/* LOAD USER TEXTURE - brightness ranks become thresholds */
+export function loadThresholdTexture(source: string): Promise<ThresholdMap> {
+  const cached = textureCache.get(source);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    const blob = await (await fetch(source)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const { data, width, height } = ctx.getImageData(
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+
+    const brightness = new Float32Array(width * height);
+    for (let i = 0; i < brightness.length; i++) {
+      brightness[i] = getLuminance(
+        data[i * 4],
+        data[i * 4 + 1],
+        data[i * 4 + 2]
+      );
+    }
+
+    // Rank-normalize so any texture yields evenly distributed thresholds
+    const order = Array.from(brightness.keys()).sort(
+      (a, b) => brightness[a] - brightness[b]
+    );
+    return createMapFromRanks(width, height, order);
+  })();
+
+  // Failed textures should be retried on the next attempt
+  promise.catch(() => textureCache.delete(source));
+  textureCache.set(source, promise);
+  return promise;
+}
+
+export function getThreshold(map: ThresholdMap, x: number, y: number): number {
+  return map.values[(y % map.height) * map.width + (x % map.width)];
+}
+
+// ================================================================
+// ------------------------- GENERATORS ---------------------------
+// ================================================================
+
+/* Build a map from cell indices ordered by increasing threshold */
+function createMapFromRanks(
+  width: number,
+  height: number,
+  order: number[]
+): ThresholdMap {
+  const values = new Float32Array(width * height);
+  order.forEach((cell, rank) => {
+    values[cell] = (rank + 0.5) / order.length;
+  });
+  return { width, height, values };
+}
+
+/* BAYER - recursive M(2n) = [4M, 4M+2; 4M+3, 4M+1] */
+function createBayerMap(size: number): ThresholdMap {
+  let matrix = [[0]];
+
+  while (matrix.length < size) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => []);
+
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const value = matrix[y][x] * 4;
+        next[y][x] = value;
+        next[y][x + n] = value + 2;
+        next[y + n][x] = value + 3;
+        next[y + n][x + n] = value + 1;
+      }
+    }
+    matrix = next;
+  }
+
+  const values = new Float32Array(size * size);
+  matrix.flat().forEach((value, i) => {
+    values[i] = (value + 0.5) / (size * size);
+  });
+  return { width: size, height: size, values };
+}
+
+/* CLUSTERED DOT - cells ranked by distance from the tile center */
+function createClusteredDotMap(size: number): ThresholdMap {
+  const center = (size - 1) / 2;
+  const cells = Array.from({ length: size * size }, (_, i) => i);
+
+  const distance = (cell: number) => {
+    const dx = (cell % size) - center;
+    const dy = Math.floor(cell / size) - center;
+    return dx * dx + dy * dy;
+  };
+  const angle = (cell: number) =>
+    Math.atan2(Math.floor(cell / size) - center, (cell % size) - center);
+
+  // Break distance ties by angle so the dot grows as a spiral
+  cells.sort((a, b) => distance(a) - distance(b) || angle(a) - angle(b));
+  return createMapFromRanks(size, size, cells);
+}
+
+/* BLUE NOISE - void-and-cluster (Ulichney 1993) on a torus */
+function createBlueNoiseMap(size: number, sigma: number): ThresholdMap {
+  const total = size * size;
+
+  // Gaussian falloff for every toroidal offset
+  const kernel = new Float32Array(total);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = Math.min(x, size - x);
+      const dy = Math.min(y, size - y);
+      kernel[y * size + x] = Math.exp(
+        -(dx * dx + dy * dy) / (2 * sigma * sigma)
+      );
+    }
+  }
+
+  const pattern = new Uint8Array(total);
+  const energy = new Float32Array(total);
+
+  const toggle = (cell: number, on: boolean) => {
+    pattern[cell] = on ? 1 : 0;
+    const sign = on ? 1 : -1;
+    const cx = cell % size;
+    const cy = Math.floor(cell / size);
+    for (let y = 0; y < size; y++) {
+      const row = ((y - cy + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[row + ((x - cx + size) % size)];
+      }
+    }
+  };
+
+  // Tightest cluster = densest 1, largest void = emptiest 0
+  const find = (value: 0 | 1) => {
+    let best = -1;
+    let bestEnergy = value === 1 ? -Infinity : Infinity;
+    for (let i = 0; i < total; i++) {
+      if (pattern[i] !== value) continue;
+      if (value === 1 ? energy[i] > bestEnergy : energy[i] < bestEnergy) {
+        bestEnergy = energy[i];
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  // Seeded initial pattern keeps the map identical between runs
+  const random = createRandom(0x5eed);
+  const initialCount = Math.round(total * 0.1);
+  while (pattern.reduce((sum, v) => sum + v, 0) < initialCount) {
+    const cell = Math.floor(random() * total);
+    if (!pattern[cell]) toggle(cell, true);
+  }
+
+  // Relax the initial pattern: move tightest clusters into largest voids
+  for (let i = 0; i < total; i++) {
+    const cluster = find(1);
+    toggle(cluster, false);
+    const void_ = find(0);
+    toggle(void_, true);
+    if (void_ === cluster) break;
+  }
+
+  const ranks = new Int32Array(total);
+  const initial = pattern.slice();
+  const initialEnergy = energy.slice();
+
+  // Phase 1: remove clusters from the initial pattern, ranking downwards
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = find(1);
+    toggle(cluster, false);
+    ranks[cluster] = rank;
+  }
+
+  // Phase 2: restore the initial pattern and fill voids, ranking upwards
+  pattern.set(initial);
+  energy.set(initialEnergy);
+  for (let rank = initialCount; rank < total; rank++) {
+    const void_ = find(0);
+    toggle(void_, true);
+    ranks[void_] = rank;
+  }
+
+  const order = new Array<number>(total);
+  ranks.forEach((rank, cell) => {
+    order[rank] = cell;
+  });
+  return createMapFromRanks(size, size, order);
+}
+
+/* Small deterministic PRNG (mulberry32) */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,272 @@
+// ================================================================
+// ------------------------ VIDEO ENCODER -------------------------
+// ================================================================
+
+/**
+ * Offline video encoding with WebCodecs
+ * Frames are encoded as fast as the encoder accepts them, each with a
+ * timestamp derived from its index, and muxed into WebM locally.
+ */
+
+import { WebmMuxer, type WebmAudioTrack, type WebmVideoCodec } from "./webm";
+
+export interface VideoWriterOptions {
+  width: number;
+  height: number;
+  fps: number;
+  /** Video bits per second */
+  bitrate?: number;
+  /** Source soundtrack, re-encoded as Opus */
+  audio?: AudioBuffer | null;
+  /** Seconds into the soundtrack where the video starts (trimmed clips) */
+  audioStart?: number;
+}
+
+const VIDEO_CODECS: { codec: string; webm: WebmVideoCodec }[] = [
+  { codec: "vp09.00.10.08", webm: "V_VP9" },
+  { codec: "vp8", webm: "V_VP8" },
+];
+
+const DEFAULT_BITRATE = 8_000_000;
+const AUDIO_BITRATE = 128_000;
+/* Opus works at 48 kHz internally */
+const AUDIO_SAMPLE_RATE = 48_000;
+/* Samples per AudioData handed to the encoder */
+const AUDIO_CHUNK_SIZE = 4800;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+/* Frames queued inside the encoder before addFrame() waits */
+const MAX_ENCODE_QUEUE = 8;
+
+export function isWebCodecsSupported(): boolean {
+  return (
+    typeof VideoEncoder !== "undefined" &&
+    typeof VideoFrame !== "undefined" &&
+    typeof AudioEncoder !== "undefined"
+  );
+}
+
+/* Decodes a file's soundtrack, null when it has none */
+export async function decodeAudio(file: Blob): Promise<AudioBuffer | null> {
+  try {
+    const context = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+/* Minimal OpusHead for encoders that do not provide one */
+function createOpusHead(channels: number, sampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"), 0);
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, 0, true); // Pre-skip
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Mapping family
+  return head;
+}
+
+/**
+ * Encodes frames added in order into a WebM file.
+ * Create through `WebmVideoWriter.create()`, which resolves to null when
+ * this browser cannot encode the requested size.
+ */
+export class WebmVideoWriter {
+  private readonly encoder: VideoEncoder;
+  private readonly options: Required<VideoWriterOptions>;
+  private readonly codec: WebmVideoCodec;
+  private chunks: EncodedVideoChunk[] = [];
+  private frameCount = 0;
+  private error: Error | null = null;
+
+  private constructor(
+    options: Required<VideoWriterOptions>,
+    config: VideoEncoderConfig,
+    codec: WebmVideoCodec
+  ) {
+    this.options = options;
+    this.codec = codec;
+    this.encoder = new VideoEncoder({
+      output: (chunk) => this.chunks.push(chunk),
+      error: (error) => {
+        this.error = error;
+      },
+    });
+    this.encoder.configure(config);
+  }
+
+  static async create(
+    options: VideoWriterOptions
+  ): Promise<WebmVideoWriter | null> {
+    if (!isWebCodecsSupported()) return null;
+
+    const resolved: Required<VideoWriterOptions> = {
+      bitrate: DEFAULT_BITRATE,
+      audio: null,
+      audioStart: 0,
+      ...options,
+    };
+
+    for (const { codec, webm } of VIDEO_CODECS) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width: options.width,
+        height: options.height,
+        bitrate: resolved.bitrate,
+        framerate: options.fps,
+        latencyMode: "quality",
+      };
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) return new WebmVideoWriter(resolved, config, webm);
+    }
+
+    return null;
+  }
+
+  /* Frames must be added in display order */
+  async addFrame(imageData: ImageData): Promise<void> {
+    this.throwIfFailed();
+
+    // Let the encoder drain instead of queueing the whole clip
+    while (this.encoder.encodeQueueSize >= MAX_ENCODE_QUEUE) {
+      await new Promise((resolve) =>
+        this.encoder.addEventListener("dequeue", resolve, { once: true })
+      );
+      this.throwIfFailed();
+    }
+
+    const { fps } = this.options;
+    const index = this.frameCount++;
+    const timestamp = Math.round((index * 1e6) / fps);
+    const frame = new VideoFrame(imageData.data, {
+      format: "RGBA",
+      codedWidth: imageData.width,
+      codedHeight: imageData.height,
+      timestamp,
+      duration: Math.round(((index + 1) * 1e6) / fps) - timestamp,
+    });
+
+    try {
+      this.encoder.encode(frame, {
+        keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0,
+      });
+    } finally {
+      frame.close();
+    }
+  }
+
+  /* Flushes the encoders and returns the finished file */
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    this.throwIfFailed();
+    this.encoder.close();
+
+    const { width, height, fps, audio, audioStart } = this.options;
+    const duration = Math.round((this.frameCount * 1e6) / fps);
+    const audioTrack = audio
+      ? await this.encodeAudio(audio, audioStart, duration)
+      : null;
+
+    const muxer = new WebmMuxer(
+      { codec: this.codec, width, height, fps },
+      audioTrack?.track ?? null
+    );
+    this.chunks.forEach((chunk) => muxer.addVideoChunk(chunk));
+    audioTrack?.chunks.forEach((chunk) => muxer.addAudioChunk(chunk));
+    return muxer.finalize(duration);
+  }
+
+  /* Stops encoding, for cancelled jobs */
+  close(): void {
+    if (this.encoder.state !== "closed") this.encoder.close();
+  }
+
+  private throwIfFailed(): void {
+    if (this.error) throw this.error;
+  }
+
+  /* Opus-encodes the soundtrack, cut to the video's range */
+  private async encodeAudio(
+    buffer: AudioBuffer,
+    startSeconds: number,
+    duration: number
+  ): Promise<{ track: WebmAudioTrack; chunks: EncodedAudioChunk[] } | null> {
+    const channels = Math.min(2, buffer.numberOfChannels);
+    const config: AudioEncoderConfig = {
+      codec: "opus",
+      sampleRate: buffer.sampleRate,
+      numberOfChannels: channels,
+      bitrate: AUDIO_BITRATE,
+    };
+    if (!(await AudioEncoder.isConfigSupported(config)).supported) return null;
+
+    const chunks: EncodedAudioChunk[] = [];
+    let description: Uint8Array | null = null;
+    let error: Error | null = null;
+    const encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        chunks.push(chunk);
+        const head = metadata?.decoderConfig?.description;
+        if (head && !description) {
+          description = ArrayBuffer.isView(head)
+            ? new Uint8Array(head.buffer, head.byteOffset, head.byteLength)
+            : new Uint8Array(head);
+        }
+      },
+      error: (e) => {
+        error = e;
+      },
+    });
+    encoder.configure(config);
+
+    const offset = Math.round(startSeconds * buffer.sampleRate);
+    const length = Math.min(
+      buffer.length - offset,
+      Math.round((duration / 1e6) * buffer.sampleRate)
+    );
+    for (let start = 0; start < length; start += AUDIO_CHUNK_SIZE) {
+      const frames = Math.min(AUDIO_CHUNK_SIZE, length - start);
+      const planar = new Float32Array(frames * channels);
+      for (let c = 0; c < channels; c++) {
+        planar.set(
+          buffer
+            .getChannelData(c)
+            .subarray(offset + start, offset + start + frames),
+          c * frames
+        );
+      }
+
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((start / buffer.sampleRate) * 1e6),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (error) throw error;
+
+    const codecPrivate: Uint8Array =
+      description ?? createOpusHead(channels, buffer.sampleRate);
+    return {
+      track: {
+        codec: "A_OPUS",
+        sampleRate: buffer.sampleRate,
+        channels,
+        codecPrivate,
+        // Pre-skip is stored little-endian at byte 10 of OpusHead
+        preSkip: codecPrivate[10] | (codecPrivate[11] << 8),
+      },
+      chunks,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+// ================================================================
+// ---------------------------- VIDEO -----------------------------
+// ================================================================
+
+import type { SettingDefinition } from "./base-processor";
+
+/* Frame selection for video processing (main thread only) */
+
+/* TYPES */
+export interface VideoSettings {
+  /** Output frame rate before sampling, 0 = detected source rate */
+  video_fps: number;
+  /** Start of the processed range in seconds */
+  video_trim_start: number;
+  /** End of the processed range in seconds, 0 = end of clip */
+  video_trim_end: number;
+  /** Keep every Nth frame, for quick drafts */
+  video_frame_step: number;
+  /** Frames rendered from a still image with keyframes, 0 = keep stills */
+  video_still_frames: number;
+  /** Frame rate of animations rendered from stills */
+  video_still_fps: number;
+  [key: string]: unknown;
+}
+
+export interface FramePlan {
+  /** Frame rate of the output file */
+  fps: number;
+  /** Trim in point in seconds, the output starts here */
+  start: number;
+  frameCount: number;
+  /** Source time of each output frame */
+  frameTime: (index: number) => number;
+}
+
+/* Used when the source rate cannot be measured */
+export const FALLBACK_FPS = 30;
+
+/* Detected rates within this ratio snap to a standard rate */
+const SNAP_TOLERANCE = 0.03;
+const STANDARD_FRAME_RATES = [
+  24000 / 1001,
+  24,
+  25,
+  30000 / 1001,
+  30,
+  48,
+  50,
+  60000 / 1001,
+  60,
+];
+const DETECT_SAMPLE_FRAMES = 12;
+const DETECT_TIMEOUT_MS = 2000;
+
+export const VIDEO_SETTINGS_DEFINITIONS: SettingDefinition[] = [
+  {
+    id: "video_fps",
+    type: "select",
+    label: "Frame rate",
+    description:
+      "The source rate is measured by playing up to 2 s of each clip, a fixed rate skips it",
+    default: 0,
+    options: [
+      { value: 0, label: "Same as source (measured, up to 2 s per clip)" },
+      { value: 24, label: "24 fps" },
+      { value: 25, label: "25 fps" },
+      { value: 30, label: "30 fps" },
+      { value: 50, label: "50 fps" },
+      { value: 60, label: "60 fps" },
+    ],
+  },
+  {
+    id: "video_trim_start",
+    type: "range",
+    label: "Trim start (s)",
+    default: 0,
+    min: 0,
+    max: 600,
+    step: 0.1,
+  },
+  {
+    id: "video_trim_end",
+    type: "range",
+    label: "Trim end (s)",
+    description: "0 = until the end of the clip",
+    default: 0,
+    min: 0,
+    max: 600,
+    step: 0.1,
+  },
+  {
+    id: "video_frame_step",
+    type: "range",
+    label: "Use every Nth frame",
+    description: "Higher values render faster drafts at a lower frame rate",
+    default: 1,
+    min: 1,
+    max: 10,
+    step: 1,
+  },
+  {
+    id: "video_still_frames",
+    type: "range",
+    label: "Frames from still images",
+    description:
+      "With keyframes set, images become GIF or APNG animations (0 = off)",
+    default: 0,
+    min: 0,
+    max: 240,
+    step: 1,
+  },
+  {
+    id: "video_still_fps",
+    type: "select",
+    label: "Still animation frame rate",
+    default: 12,
+    options: [8, 10, 12, 15, 24, 30].map((fps) => ({
+      value: fps,
+      label: `${fps} fps`,
+    })),
+  },
+];
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  video_fps: 0,
+  video_trim_start: 0,
+  video_trim_end: 0,
+  video_frame_step: 1,
+  video_still_frames: 0,
+  video_still_fps: 12,
+};
+
+/* SEEK AND WAIT FOR THE FRAME */
+export function seekVideo(
+  video: HTMLVideoElement,
+  time: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // A broken source never fires "seeked", so errors end the wait instead
+    const onError = () => reject(new Error("Failed to seek video"));
+    video.addEventListener("error", onError, { once: true });
+    video.addEventListener(
+      "seeked",
+      () => {
+        video.removeEventListener("error", onError);
+        resolve();
+      },
+      { once: true }
+    );
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Measures the source frame rate from presented frame timestamps.
+ * Plays the (muted) video briefly, then rewinds it.
+ */
+export async function detectFrameRate(
+  video: HTMLVideoElement
+): Promise<number> {
+  if (!("requestVideoFrameCallback" in video)) return FALLBACK_FPS;
+
+  const mediaTimes: number[] = [];
+  const muted = video.muted;
+  video.muted = true;
+
+  try {
+    await new Promise<void>((resolve) => {
+      const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+        mediaTimes.push(metadata.mediaTime);
+        if (mediaTimes.length >= DETECT_SAMPLE_FRAMES) resolve();
+        else video.requestVideoFrameCallback(onFrame);
+      };
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(() => resolve());
+      setTimeout(resolve, DETECT_TIMEOUT_MS);
+    });
+  } finally {
+    video.pause();
+    video.muted = muted;
+  }
+  await seekVideo(video, 0);
+
+  // Dropped frames show up as multiples, so the median is used
+  const deltas = mediaTimes
+    .slice(1)
+    .map((time, i) => time - mediaTimes[i])
+    .filter((delta) => delta > 0)
+    .sort((a, b) => a - b);
+  if (deltas.length === 0) return FALLBACK_FPS;
+
+  const measured = 1 / deltas[Math.floor(deltas.length / 2)];
+  const standard = STANDARD_FRAME_RATES.find(
+    (rate) => Math.abs(rate - measured) / rate <= SNAP_TOLERANCE
+  );
+  return standard ?? Math.round(measured * 100) / 100;
+}
+
+/**
+ * Output frames for a clip. Each frame samples the middle of its source
+ * frame, so seeking never lands on a boundary and repeats a frame.
+ */
+export function planFrames(
+  duration: number,
+  sourceFps: number,
+  settings: VideoSettings
+): FramePlan {
+  const baseFps = Number(settings.video_fps) || sourceFps;
+  const step = Math.max(1, Math.round(Number(settings.video_frame_step) || 1));
+  const start = Math.min(
+    duration,
+    Math.max(0, Number(settings.video_trim_start) || 0)
+  );
+  const trimEnd = Number(settings.video_trim_end) || 0;
+  const end = trimEnd > start ? Math.min(duration, trimEnd) : duration;
+
+  const fps = baseFps / step;
+  // Small epsilon so float error does not drop the last frame
+  const frameCount = Math.floor((end - start) * fps + 1e-6);
+
+  return {
+    fps,
+    start,
+    frameCount,
+    frameTime: (index) => Math.min(end, start + (index * step + 0.5) / baseFps),
+  };
+}
@@ -0,0 +1,344 @@
+// ================================================================
+// ------------------------- WEBM MUXER ---------------------------
+// ================================================================
+
+/**
+ * Minimal WebM (Matroska) writer for WebCodecs output
+ * Holds the encoded chunks in memory and lays out the file on finalize:
+ * header, Info, Tracks, Cues, then one Cluster per video keyframe.
+ * Cues come before the clusters so players can seek without a SeekHead.
+ */
+
+export type WebmVideoCodec = "V_VP8" | "V_VP9";
+
+export interface WebmVideoTrack {
+  codec: WebmVideoCodec;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface WebmAudioTrack {
+  codec: "A_OPUS";
+  sampleRate: number;
+  channels: number;
+  /** OpusHead identification header */
+  codecPrivate: Uint8Array;
+  /** Samples the decoder discards at the start */
+  preSkip: number;
+}
+
+interface Block {
+  track: number;
+  /** Milliseconds */
+  timecode: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+type EbmlValue = Uint8Array | EbmlElement[];
+
+interface EbmlElement {
+  id: number;
+  value: EbmlValue;
+}
+
+export const WEBM_MIME_TYPE = "video/webm";
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+/* Timecodes are stored in milliseconds */
+const TIMECODE_SCALE = 1_000_000;
+/* SimpleBlock timecodes are int16 offsets from the cluster */
+const MAX_CLUSTER_SPAN = 30_000;
+const OPUS_SEEK_PRE_ROLL = 80_000_000;
+
+/* ELEMENT IDS */
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+} as const;
+
+// ================================================================
+// ---------------------------- EBML ------------------------------
+// ================================================================
+
+/* Unsigned integer, big-endian, in `length` bytes (minimal if omitted) */
+function uint(value: number, length?: number): Uint8Array {
+  let size = length ?? 1;
+  if (length === undefined) {
+    while (size < 8 && value >= 2 ** (size * 8)) size++;
+  }
+
+  const bytes = new Uint8Array(size);
+  for (let i = size - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function float(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function string(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/* Variable-length size with the length marker bit */
+function vint(value: number): Uint8Array {
+  let length = 1;
+  // All-ones is reserved for "unknown size", hence the - 1
+  while (length < 8 && value >= 2 ** (7 * length) - 1) length++;
+
+  const bytes = uint(value, length);
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+/* IDs already carry their marker bits */
+function id(value: number): Uint8Array {
+  return uint(value);
+}
+
+function el(elementId: number, value: EbmlValue): EbmlElement {
+  return { id: elementId, value };
+}
+
+function encodeElement(element: EbmlElement): Uint8Array[] {
+  const payload = Array.isArray(element.value)
+    ? element.value.flatMap(encodeElement)
+    : [element.value];
+  const size = payload.reduce((sum, part) => sum + part.length, 0);
+  return [id(element.id), vint(size), ...payload];
+}
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((sum, part) => sum + part.length, 0);
+}
+
+// ================================================================
+// ---------------------------- MUXER -----------------------------
+// ================================================================
+
+export class WebmMuxer {
+  private readonly video: WebmVideoTrack;
+  private readonly audio: WebmAudioTrack | null;
+  private blocks: Block[] = [];
+
+  constructor(video: WebmVideoTrack, audio: WebmAudioTrack | null = null) {
+    this.video = video;
+    this.audio = audio;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk): void {
+    this.addChunk(VIDEO_TRACK, chunk);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk): void {
+    if (this.audio) this.addChunk(AUDIO_TRACK, chunk);
+  }
+
+  /* Lays out the complete file, `duration` in microseconds */
+  finalize(duration: number): Blob {
+    // Interleave by time, video first on ties so clusters open on keyframes
+    const blocks = [...this.blocks].sort(
+      (a, b) => a.timecode - b.timecode || a.track - b.track
+    );
+
+    /* CLUSTERS */
+    const clusters: {
+      timecode: number;
+      /** Opens on a video keyframe, so playback can start here */
+      seekable: boolean;
+      parts: Uint8Array[];
+    }[] = [];
+    let current: { timecode: number; blocks: Block[] } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const cluster = el(ID.Cluster, [
+        el(ID.Timecode, uint(current.timecode)),
+        ...current.blocks.map((block) =>
+          el(ID.SimpleBlock, this.encodeBlock(block, current!.timecode))
+        ),
+      ]);
+      const [first] = current.blocks;
+      clusters.push({
+        timecode: current.timecode,
+        seekable: first.track === VIDEO_TRACK && first.keyframe,
+        parts: encodeElement(cluster),
+      });
+    };
+
+    for (const block of blocks) {
+      const startsCluster =
+        !current ||
+        (block.track === VIDEO_TRACK && block.keyframe) ||
+        block.timecode - current.timecode > MAX_CLUSTER_SPAN;
+
+      if (startsCluster) {
+        flush();
+        current = { timecode: block.timecode, blocks: [] };
+      }
+      current!.blocks.push(block);
+    }
+    flush();
+
+    /* HEADERS */
+    const header = encodeElement(
+      el(ID.EBML, [
+        el(ID.EBMLVersion, uint(1)),
+        el(ID.EBMLReadVersion, uint(1)),
+        el(ID.EBMLMaxIDLength, uint(4)),
+        el(ID.EBMLMaxSizeLength, uint(8)),
+        el(ID.DocType, string("webm")),
+        el(ID.DocTypeVersion, uint(4)),
+        el(ID.DocTypeReadVersion, uint(2)),
+      ])
+    );
+
+    const info = encodeElement(
+      el(ID.Info, [
+        el(ID.TimecodeScale, uint(TIMECODE_SCALE)),
+        el(ID.MuxingApp, string("neffect")),
+        el(ID.WritingApp, string("neffect")),
+        el(ID.Duration, float(duration / 1000)),
+      ])
+    );
+
+    const tracks = encodeElement(el(ID.Tracks, this.encodeTracks()));
+
+    /* CUES - fixed-width positions keep the size independent of offsets */
+    const cuesStart = byteLength(info) + byteLength(tracks);
+    const cuePoints = (clustersStart: number) => {
+      let position = clustersStart;
+      return clusters.flatMap((cluster) => {
+        const cue = el(ID.CuePoint, [
+          el(ID.CueTime, uint(cluster.timecode)),
+          el(ID.CueTrackPositions, [
+            el(ID.CueTrack, uint(VIDEO_TRACK)),
+            el(ID.CueClusterPosition, uint(position, 8)),
+          ]),
+        ]);
+        position += byteLength(cluster.parts);
+        return cluster.seekable ? [cue] : [];
+      });
+    };
+    const cuesSize = byteLength(encodeElement(el(ID.Cues, cuePoints(0))));
+    const cues = encodeElement(el(ID.Cues, cuePoints(cuesStart + cuesSize)));
+
+    const body = [
+      ...info,
+      ...tracks,
+      ...cues,
+      ...clusters.flatMap((cluster) => cluster.parts),
+    ];
+    const segment = [id(ID.Segment), vint(byteLength(body)), ...body];
+
+    return new Blob([...header, ...segment] as BlobPart[], {
+      type: WEBM_MIME_TYPE,
+    });
+  }
+
+  private addChunk(
+    track: number,
+    chunk: EncodedVideoChunk | EncodedAudioChunk
+  ): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.blocks.push({
+      track,
+      timecode: Math.round(chunk.timestamp / 1000),
+      keyframe: chunk.type === "key",
+      data,
+    });
+  }
+
+  private encodeBlock(block: Block, clusterTimecode: number): Uint8Array {
+    const bytes = new Uint8Array(4 + block.data.length);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = 0x80 | block.track; // Track number as a 1-byte vint
+    view.setInt16(1, block.timecode - clusterTimecode);
+    bytes[3] = block.keyframe ? 0x80 : 0;
+    bytes.set(block.data, 4);
+    return bytes;
+  }
+
+  private encodeTracks(): EbmlElement[] {
+    const { codec, width, height, fps } = this.video;
+    const entries = [
+      el(ID.TrackEntry, [
+        el(ID.TrackNumber, uint(VIDEO_TRACK)),
+        el(ID.TrackUID, uint(VIDEO_TRACK)),
+        el(ID.TrackType, uint(1)),
+        el(ID.CodecID, string(codec)),
+        el(ID.DefaultDuration, uint(Math.round(1e9 / fps))),
+        el(ID.Video, [
+          el(ID.PixelWidth, uint(width)),
+          el(ID.PixelHeight, uint(height)),
+        ]),
+      ]),
+    ];
+
+    if (this.audio) {
+      const { codec, sampleRate, channels, codecPrivate, preSkip } = this.audio;
+      entries.push(
+        el(ID.TrackEntry, [
+          el(ID.TrackNumber, uint(AUDIO_TRACK)),
+          el(ID.TrackUID, uint(AUDIO_TRACK)),
+          el(ID.TrackType, uint(2)),
+          el(ID.CodecID, string(codec)),
+          el(ID.CodecPrivate, codecPrivate),
+          el(ID.CodecDelay, uint(Math.round((preSkip / 48000) * 1e9))),
+          el(ID.SeekPreRoll, uint(OPUS_SEEK_PRE_ROLL)),
+          el(ID.Audio, [
+            el(ID.SamplingFrequency, float(sampleRate)),
+            el(ID.Channels, uint(channels)),
+          ]),
+        ])
+      );
+    }
+
+    return entries;
+  }
+}
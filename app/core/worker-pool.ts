@@ -0,0 +1,278 @@
+// ================================================================
+// ------------------------- WORKER POOL --------------------------
+// ================================================================
+
+import type { BaseSettings, FrameState } from "./base-processor";
+
+/* TYPES */
+/** Raw RGBA pixels, posted as a transferable buffer */
+export interface FrameData {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+interface TaskOptions {
+  processorId: string;
+  settings: Record<string, unknown>;
+  baseSettings: BaseSettings;
+}
+
+export type WorkerTask =
+  | (TaskOptions & {
+      /** Decoded, processed and encoded entirely inside the worker */
+      type: "image";
+      /** Encoded file, or pixels for formats workers cannot decode */
+      source: Blob | FrameData;
+    })
+  | (TaskOptions & {
+      /** Pixels in, pixels out (used for video frames) */
+      type: "frame";
+      frame: FrameData;
+      /** Set for temporal effects, null for the first frame */
+      state?: FrameState | null;
+    });
+
+export type WorkerResult =
+  | {
+      type: "image";
+      blob: Blob;
+      /** Size of the encoded output */
+      width: number;
+      height: number;
+    }
+  | {
+      type: "frame";
+      frame: FrameData;
+      /** Handed to the next frame of a temporal effect */
+      state?: FrameState | null;
+    };
+
+export type WorkerRequest =
+  | { id: number; task: WorkerTask }
+  /** Aborts the signal the task was started with */
+  | { id: number; abort: true };
+
+export type WorkerResponse =
+  { id: number; result: WorkerResult } | { id: number; error: string };
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  /** Called once a worker picks the task up */
+  onStart?: () => void;
+}
+
+interface QueuedTask {
+  id: number;
+  task: WorkerTask;
+  onStart?: () => void;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_POOL_SIZE = 4;
+/* Time an aborted task gets to stop by itself before its worker is killed */
+const ABORT_GRACE_MS = 100;
+
+/* IMAGE DATA <-> FRAME DATA */
+export function toFrameData(imageData: ImageData): FrameData {
+  const { data } = imageData;
+  // Only a view covering its whole buffer can be transferred as-is
+  const owned =
+    data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+      ? data
+      : data.slice();
+
+  return {
+    width: imageData.width,
+    height: imageData.height,
+    buffer: owned.buffer as ArrayBuffer,
+  };
+}
+
+export function fromFrameData(frame: FrameData): ImageData {
+  return new ImageData(
+    new Uint8ClampedArray(frame.buffer),
+    frame.width,
+    frame.height
+  );
+}
+
+export function getTransferables(
+  payload: WorkerTask | WorkerResult
+): Transferable[] {
+  if (payload.type === "frame") return [payload.frame.buffer];
+  if ("source" in payload && !(payload.source instanceof Blob)) {
+    return [payload.source.buffer];
+  }
+  return [];
+}
+
+/**
+ * Fixed-size pool of workers fed from a FIFO queue.
+ * Workers are spawned on demand and reused until the pool is terminated.
+ */
+export class WorkerPool {
+  readonly size: number;
+  private readonly createWorker: () => Worker;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: QueuedTask[] = [];
+  private running = new Map<Worker, QueuedTask>();
+  private nextId = 0;
+  private paused = false;
+
+  constructor(createWorker: () => Worker, size?: number) {
+    this.createWorker = createWorker;
+    this.size = Math.max(
+      1,
+      size ?? (navigator.hardwareConcurrency || DEFAULT_POOL_SIZE)
+    );
+  }
+
+  /**
+   * Transferable buffers in the task are detached once it is queued.
+   * Aborting rejects with `signal.reason`; a task already running gets
+   * the abort inside its worker, which is replaced right away.
+   */
+  run<T extends WorkerTask>(
+    task: T,
+    { signal, onStart }: RunOptions = {}
+  ): Promise<Extract<WorkerResult, { type: T["type"] }>> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+
+      const onAbort = () => this.cancel(entry, signal!.reason);
+      const entry: QueuedTask = {
+        id: this.nextId++,
+        task,
+        onStart,
+        // The worker always answers with the result type of the request
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result as Extract<WorkerResult, { type: T["type"] }>);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(entry);
+      this.dispatch();
+    });
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /* Running tasks finish, queued ones wait for resume() */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.dispatch();
+  }
+
+  terminate(): void {
+    const error = new Error("Worker pool terminated");
+    this.workers.forEach((worker) => worker.terminate());
+    this.running.forEach((entry) => entry.reject(error));
+    this.queue.forEach((entry) => entry.reject(error));
+
+    this.workers = [];
+    this.idle = [];
+    this.queue = [];
+    this.running.clear();
+  }
+
+  private cancel(entry: QueuedTask, reason: unknown): void {
+    const queued = this.queue.indexOf(entry);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      entry.reject(reason);
+      return;
+    }
+
+    // Effects only check the signal between steps, so a busy worker is set
+    // aside and thrown away once it stops or the grace period is over
+    for (const [worker, running] of this.running) {
+      if (running !== entry) continue;
+
+      const request: WorkerRequest = { id: entry.id, abort: true };
+      worker.postMessage(request);
+      worker.onmessage = worker.onerror = () => worker.terminate();
+      setTimeout(() => worker.terminate(), ABORT_GRACE_MS);
+
+      this.running.delete(worker);
+      this.workers = this.workers.filter((w) => w !== worker);
+      entry.reject(reason);
+      // Let the other tasks sharing the signal drop out of the queue first
+      queueMicrotask(() => this.dispatch());
+      return;
+    }
+  }
+
+  private dispatch(): void {
+    while (!this.paused && this.queue.length > 0) {
+      const worker = this.acquireWorker();
+      if (!worker) return;
+
+      const entry = this.queue.shift()!;
+      this.running.set(worker, entry);
+
+      const request: WorkerRequest = { id: entry.id, task: entry.task };
+      worker.postMessage(request, getTransferables(entry.task));
+      entry.onStart?.();
+    }
+  }
+
+  private acquireWorker(): Worker | undefined {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+    if (this.workers.length >= this.size) return undefined;
+
+    const worker = this.createWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      this.settle(worker, event.data);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.settle(worker, {
+        id: -1,
+        error: event.message || "Worker crashed",
+      });
+    };
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private settle(worker: Worker, response: WorkerResponse): void {
+    const entry = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (entry) {
+      if ("error" in response) entry.reject(new Error(response.error));
+      else entry.resolve(response.result);
+    }
+
+    this.dispatch();
+  }
+}
+
+/* POOL RUNNING THE REGISTERED PROCESSORS */
+export function createProcessingPool(size?: number): WorkerPool {
+  return new WorkerPool(
+    () =>
+      new Worker(new URL("./processing.worker.ts", import.meta.url), {
+        type: "module",
+      }),
+    size
+  );
+}
@@ -2,22 +2,46 @@
 // ------------------------- EFFECT PAGE --------------------------
 // ================================================================
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Link, redirect } from "react-router";
 import type { Route } from "./+types/effect.$effectId";
-import { getProcessor } from "~/core/processors";
+import { getProcessor, PipelineProcessor } from "~/core/processors";
+import { getPipelineSteps } from "~/core/processors/pipeline";
 import {
-    BASE_SETTINGS_DEFINITIONS,
     getDefaultBaseSettings,
-    applyBaseSettings,
+    getEncodeOptions,
+    isSettingVisible,
     type BaseSettings,
     type BatchProgress,
+    type FrameState,
     type ProcessorPreset,
     type SettingDefinition,
 } from "~/core/base-processor";
+import { createStillAnimation, decodeAnimation, encodeAnimation, getFileExtension, type AnimatedImage } from "~/core/image-io";
+import { applyKeyframes, frameProgress, type KeyframeTrack } from "~/core/keyframes";
+import { decodeAudio, isWebCodecsSupported, WebmVideoWriter } from "~/core/video-encoder";
+import {
+    DEFAULT_VIDEO_SETTINGS,
+    detectFrameRate,
+    planFrames,
+    seekVideo,
+    VIDEO_SETTINGS_DEFINITIONS,
+    type VideoSettings,
+} from "~/core/video";
+import { SVG_MIME_TYPE } from "~/core/vector";
+import { createProcessingPool, fromFrameData, toFrameData, type WorkerPool } from "~/core/worker-pool";
 import { WizardUpload, type UploadedFile, type FileType } from "~/components/WizardUpload";
 import { WizardProcess, type ProcessedImage, type ProcessedFileType } from "~/components/WizardProcess";
 import { LivePreview } from "~/components/LivePreview";
+import { PreviewStrip } from "~/components/PreviewStrip";
+import { SettingField } from "~/components/SettingField";
+import { PipelineEditor } from "~/components/PipelineEditor";
+import { PipelineRecipes } from "~/components/PipelineRecipes";
+import { VideoFramePicker } from "~/components/VideoFramePicker";
+import { KeyframeEditor } from "~/components/KeyframeEditor";
+import { getActiveProfileSettings, type Recipe } from "~/utils/db";
+import { formatFilename, getBaseName } from "~/utils/filename";
+import { downloadZip, uniqueZipPath, type ZipEntry } from "~/utils/zip";
 
 // ================================================================
 // -------------------------- META --------------------------------
@@ -70,6 +94,11 @@ export function HydrateFallback() {
 
 type WizardStep = "config" | "upload" | "process";
 
+/* Without WebCodecs every processed frame is held until playback, so longer clips are refused */
+const MAX_BUFFERED_VIDEO_BYTES = 1024 ** 3;
+/* How often real-time video playback checks whether the batch was resumed */
+const PAUSE_POLL_MS = 100;
+
 export default function EffectPage({ loaderData }: Route.ComponentProps) {
     const { effectId, defaultPresetId, defaultSettings, defaultBaseSettings } = loaderData;
     const processor = getProcessor(effectId || "")!;
@@ -81,11 +110,34 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
         defaultBaseSettings ? { ...getDefaultBaseSettings(), ...defaultBaseSettings } : getDefaultBaseSettings()
     );
     const [baseSettingsExpanded, setBaseSettingsExpanded] = useState(true);
+    const [videoSettings, setVideoSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+    const [videoSettingsExpanded, setVideoSettingsExpanded] = useState(false);
+    const [previewFrameUrl, setPreviewFrameUrl] = useState<string | null>(null);
+    const [keyframes, setKeyframes] = useState<KeyframeTrack[]>([]);
+    const [keyframesExpanded, setKeyframesExpanded] = useState(false);
+    const [keyframePreview, setKeyframePreview] = useState(0);
     const [hoveredPreset, setHoveredPreset] = useState<ProcessorPreset | null>(null);
     const [files, setFiles] = useState<UploadedFile[]>([]);
+    // Preview URL of the upload shown in the live preview, null for the profile image
+    const [previewSource, setPreviewSource] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [progress, setProgress] = useState<BatchProgress | null>(null);
     const [results, setResults] = useState<ProcessedImage[]>([]);
+    const [isPaused, setIsPaused] = useState(false);
+    const [isCancelled, setIsCancelled] = useState(false);
+    const poolRef = useRef<WorkerPool | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Workers are spawned on first use and stay warm between batches
+    const getPool = useCallback(() => (poolRef.current ??= createProcessingPool()), []);
+
+    useEffect(() => {
+        return () => {
+            abortRef.current?.abort();
+            poolRef.current?.terminate();
+            poolRef.current = null;
+        };
+    }, []);
 
     const handlePresetSelect = useCallback(
         (presetId: string) => {
@@ -115,10 +167,22 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
         setBaseSettings((prev) => ({ ...prev, [id]: value }));
     }, []);
 
+    const handleVideoSettingChange = useCallback((id: string, value: unknown) => {
+        setVideoSettings((prev) => ({ ...prev, [id]: value }));
+    }, []);
+
+    const handleRecipeLoad = useCallback((recipe: Recipe) => {
+        setSettings({ steps: recipe.steps });
+        setBaseSettings({ ...getDefaultBaseSettings(), ...recipe.baseSettings });
+        setSelectedPreset(null);
+    }, []);
+
     const loadImageData = async (file: File): Promise<ImageData> => {
         return new Promise((resolve, reject) => {
             const img = new Image();
+            const url = URL.createObjectURL(file);
             img.onload = () => {
+                URL.revokeObjectURL(url);
                 const canvas = document.createElement("canvas");
                 canvas.width = img.width;
                 canvas.height = img.height;
@@ -127,48 +191,20 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                 ctx.drawImage(img, 0, 0);
                 resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
             };
-            img.onerror = reject;
-            img.src = URL.createObjectURL(file);
+            img.onerror = () => {
+                URL.revokeObjectURL(url);
+                reject(new Error("Could not decode image"));
+            };
+            img.src = url;
         });
     };
 
-    const imageDataToDataUrl = (imageData: ImageData): string => {
-        const canvas = document.createElement("canvas");
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        const ctx = canvas.getContext("2d");
-        if (!ctx) return "";
-        ctx.putImageData(imageData, 0, 0);
-        return canvas.toDataURL("image/png");
-    };
-
-    /* SCALE IMAGE DATA TO TARGET SIZE */
-    const scaleImageData = (imageData: ImageData, targetWidth: number, targetHeight: number): ImageData => {
-        const sourceCanvas = document.createElement("canvas");
-        sourceCanvas.width = imageData.width;
-        sourceCanvas.height = imageData.height;
-        const sourceCtx = sourceCanvas.getContext("2d");
-        if (!sourceCtx) return imageData;
-        sourceCtx.putImageData(imageData, 0, 0);
-
-        const targetCanvas = document.createElement("canvas");
-        targetCanvas.width = targetWidth;
-        targetCanvas.height = targetHeight;
-        const targetCtx = targetCanvas.getContext("2d");
-        if (!targetCtx) return imageData;
-
-        // Use nearest-neighbor scaling to preserve pixelated look
-        targetCtx.imageSmoothingEnabled = false;
-        targetCtx.drawImage(sourceCanvas, 0, 0, targetWidth, targetHeight);
-
-        return targetCtx.getImageData(0, 0, targetWidth, targetHeight);
-    };
-
     /* VIDEO PROCESSING */
     const processVideo = async (
         file: File,
+        signal: AbortSignal,
         onFrameProgress?: (current: number, total: number) => void
-    ): Promise<{ dataUrl: string; blob: Blob }> => {
+    ): Promise<{ dataUrl: string; blob: Blob; width: number; height: number }> => {
         return new Promise((resolve, reject) => {
             const video = document.createElement("video");
             video.playsInline = true;
@@ -176,53 +212,125 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
             const videoUrl = URL.createObjectURL(file);
             video.src = videoUrl;
 
-            video.onloadedmetadata = async () => {
+            const handleMetadata = async () => {
                 const canvas = document.createElement("canvas");
                 canvas.width = video.videoWidth;
                 canvas.height = video.videoHeight;
                 const ctx = canvas.getContext("2d");
                 if (!ctx) return reject(new Error("Could not get canvas context"));
 
-                const fps = 30;
-                const duration = video.duration;
-                const totalFrames = Math.floor(duration * fps);
-                const frameInterval = 1 / fps;
+                // Frame rate and range follow the source unless the video settings override them
+                const sourceFps = Number(videoSettings.video_fps) || (await detectFrameRate(video));
+                const plan = planFrames(video.duration, sourceFps, videoSettings);
+                const { fps, frameCount: totalFrames } = plan;
+                if (totalFrames === 0) return reject(new Error("No frames in the selected range"));
 
-                const processedFrames: ImageData[] = [];
                 const originalWidth = video.videoWidth;
                 const originalHeight = video.videoHeight;
-
-                // Phase 1: Extract and process all frames
-                for (let i = 0; i < totalFrames; i++) {
-                    video.currentTime = i * frameInterval;
-                    await new Promise<void>((res) => {
-                        const handler = () => {
-                            video.removeEventListener("seeked", handler);
-                            res();
-                        };
-                        video.addEventListener("seeked", handler);
-                    });
-
-                    ctx.drawImage(video, 0, 0);
-                    const frameData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                    const processed = await processor.process(frameData, settings);
-                    let final = applyBaseSettings(frameData, processed, baseSettings);
-
-                    // Scale to original resolution if requested
-                    if (baseSettings.keep_original_resolution &&
-                        (final.width !== originalWidth || final.height !== originalHeight)) {
-                        final = scaleImageData(final, originalWidth, originalHeight);
+                let outputWidth = originalWidth;
+                let outputHeight = originalHeight;
+                const pool = getPool();
+                const pending: Promise<void>[] = [];
+                let completedFrames = 0;
+                // Temporal effects see the previous frame, so their frames run one after another
+                const temporal = processor.isTemporal(settings);
+                let frameState: FrameState | null = null;
+
+                // Frames finish out of order and are handed on in order from here
+                const readyFrames = new Map<number, ImageData>();
+                let nextFrame = 0;
+                let sink: Promise<void> = Promise.resolve();
+                // Created once the first frame fixes the output size, null without WebCodecs
+                let writer: WebmVideoWriter | null | undefined;
+                // Only the real-time fallback has to keep every frame
+                const bufferedFrames: ImageData[] = [];
+                const audio = isWebCodecsSupported() ? decodeAudio(file) : Promise.resolve(null);
+
+                const drainFrames = async () => {
+                    for (let frame = readyFrames.get(nextFrame); frame; frame = readyFrames.get(nextFrame)) {
+                        readyFrames.delete(nextFrame++);
+                        if (writer === undefined) {
+                            outputWidth = frame.width;
+                            outputHeight = frame.height;
+                            writer = await WebmVideoWriter.create({
+                                width: outputWidth,
+                                height: outputHeight,
+                                fps,
+                                audio: await audio,
+                                audioStart: plan.start,
+                            });
+
+                            const bufferedBytes = outputWidth * outputHeight * 4 * totalFrames;
+                            if (!writer && bufferedBytes > MAX_BUFFERED_VIDEO_BYTES) {
+                                throw new Error(
+                                    `This browser cannot encode video (no WebCodecs), so all ${totalFrames} frames would have to be held in memory ` +
+                                        `(about ${(bufferedBytes / 1024 ** 3).toFixed(1)} GB). Trim the clip, lower the frame rate or sample fewer frames, ` +
+                                        "or use a browser with WebCodecs."
+                                );
+                            }
+                        }
+                        if (writer) await writer.addFrame(frame);
+                        else bufferedFrames.push(frame);
                     }
+                };
 
-                    processedFrames.push(final);
-                    onFrameProgress?.(i + 1, totalFrames);
+                // Phase 1: Decode, process in the worker pool and encode as a bounded stream
+                try {
+                    for (let i = 0; i < totalFrames; i++) {
+                        signal.throwIfAborted();
+                        await seekVideo(video, plan.frameTime(i));
+
+                        ctx.drawImage(video, 0, 0);
+                        const frameData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                        if (temporal) await pending.shift();
+                        pending.push(
+                            pool
+                                .run(
+                                    {
+                                        type: "frame",
+                                        processorId: processor.config.id,
+                                        settings: applyKeyframes(settings, keyframes, processor.settings, frameProgress(i, totalFrames)),
+                                        baseSettings,
+                                        frame: toFrameData(frameData),
+                                        ...(temporal && { state: frameState }),
+                                    },
+                                    { signal }
+                                )
+                                .then(({ frame, state }) => {
+                                    frameState = state ?? null;
+                                    readyFrames.set(i, fromFrameData(frame));
+                                    onFrameProgress?.(++completedFrames, totalFrames);
+                                    sink = sink.then(drainFrames);
+                                    return sink;
+                                })
+                        );
+
+                        // Wait for the oldest frame to be encoded, so memory stays flat for any clip length
+                        if (pending.length >= pool.size * 2) await pending.shift();
+                    }
+                    await Promise.all(pending);
+                    await sink;
+                } catch (error) {
+                    // Let the frames still in flight finish or fail, so none of them rejects unhandled
+                    await Promise.allSettled(pending);
+                    await sink.catch(() => {});
+                    writer?.close();
+                    return reject(error);
                 }
 
-                // Determine output size based on first processed frame
-                const outputWidth = processedFrames[0]?.width || originalWidth;
-                const outputHeight = processedFrames[0]?.height || originalHeight;
+                // Phase 2: Finish the WebCodecs file, exact timestamps and no real-time playback
+                if (writer) {
+                    try {
+                        const blob = await writer.finish();
+                        resolve({ dataUrl: URL.createObjectURL(blob), blob, width: outputWidth, height: outputHeight });
+                    } catch (error) {
+                        writer.close();
+                        reject(error);
+                    }
+                    return;
+                }
 
-                // Phase 2: Create output video with audio
+                // Fallback: re-play the source in real time and record a canvas with audio
                 const outputCanvas = document.createElement("canvas");
                 outputCanvas.width = outputWidth;
                 outputCanvas.height = outputHeight;
@@ -276,16 +384,16 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                     if (e.data.size > 0) chunks.push(e.data);
                 };
 
-                // Phase 3: Render frames in real-time with audio sync
+                // Render frames in real-time with audio sync
                 const renderPromise = new Promise<void>((resolveRender) => {
                     mediaRecorder.onstop = () => resolveRender();
                 });
 
                 mediaRecorder.start(100); // Collect data every 100ms for smoother output
 
-                // Reset video for audio playback
+                // Rewind to the trim start for audio playback
                 video.muted = false;
-                video.currentTime = 0;
+                video.currentTime = plan.start;
                 video.playbackRate = 1;
 
                 // Play video for audio while rendering processed frames
@@ -297,10 +405,23 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
 
                 await playPromise;
 
-                const startTime = performance.now();
+                let startTime = performance.now();
                 const frameDuration = 1000 / fps;
 
-                for (let i = 0; i < processedFrames.length; i++) {
+                for (let i = 0; i < bufferedFrames.length; i++) {
+                    if (pool.isPaused) {
+                        // Playback and recording wait with the batch, frame timing picks up where it stopped
+                        const pausedAt = performance.now();
+                        video.pause();
+                        mediaRecorder.pause();
+                        while (pool.isPaused && !signal.aborted) {
+                            await new Promise((res) => setTimeout(res, PAUSE_POLL_MS));
+                        }
+                        mediaRecorder.resume();
+                        await video.play().catch(() => {});
+                        startTime += performance.now() - pausedAt;
+                    }
+
                     const targetTime = startTime + i * frameDuration;
                     const now = performance.now();
                     const delay = Math.max(0, targetTime - now);
@@ -309,7 +430,8 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                         await new Promise((res) => setTimeout(res, delay));
                     }
 
-                    outputCtx.putImageData(processedFrames[i], 0, 0);
+                    if (signal.aborted) break;
+                    outputCtx.putImageData(bufferedFrames[i], 0, 0);
                 }
 
                 // Wait a bit for the last frame to be captured
@@ -318,13 +440,21 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                 video.pause();
                 mediaRecorder.stop();
 
+                if (signal.aborted) return reject(signal.reason);
+
                 await renderPromise;
 
                 const blob = new Blob(chunks, { type: "video/webm" });
                 const dataUrl = URL.createObjectURL(blob);
-                URL.revokeObjectURL(videoUrl);
 
-                resolve({ dataUrl, blob });
+                resolve({ dataUrl, blob, width: outputWidth, height: outputHeight });
+            };
+
+            // Anything the handler does not catch itself (frame rate detection, playback) fails this file
+            video.onloadedmetadata = () => {
+                handleMetadata()
+                    .catch(reject)
+                    .finally(() => URL.revokeObjectURL(videoUrl));
             };
 
             video.onerror = () => {
@@ -334,88 +464,299 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
         });
     };
 
-    const handleProcess = useCallback(async () => {
-        if (files.length === 0) return;
-        setStep("process");
-        setIsProcessing(true);
-        setResults([]);
+    /* ANIMATION PROCESSING */
+    const processAnimation = async (
+        animation: AnimatedImage,
+        signal: AbortSignal,
+        onFrameProgress?: (current: number, total: number) => void
+    ): Promise<{ dataUrl: string; blob: Blob; width: number; height: number }> => {
+        const pool = getPool();
+        const totalFrames = animation.frameCount;
+        const frames: ImageData[] = new Array(totalFrames);
+        const delays: number[] = new Array(totalFrames);
+        const pending: Promise<void>[] = [];
+        let completedFrames = 0;
+        const temporal = processor.isTemporal(settings);
+        let frameState: FrameState | null = null;
+
+        // Same bounded per-frame path as video, but every frame is kept for the shared palette
+        try {
+            for (let i = 0; i < totalFrames; i++) {
+                signal.throwIfAborted();
+                const { imageData, duration } = await animation.decodeFrame(i);
+                delays[i] = duration;
+                if (temporal) await pending.shift();
+                pending.push(
+                    pool
+                        .run(
+                            {
+                                type: "frame",
+                                processorId: processor.config.id,
+                                settings: applyKeyframes(settings, keyframes, processor.settings, frameProgress(i, totalFrames)),
+                                baseSettings,
+                                frame: toFrameData(imageData),
+                                ...(temporal && { state: frameState }),
+                            },
+                            { signal }
+                        )
+                        .then(({ frame, state }) => {
+                            frameState = state ?? null;
+                            frames[i] = fromFrameData(frame);
+                            onFrameProgress?.(++completedFrames, totalFrames);
+                        })
+                );
+
+                if (pending.length >= pool.size * 2) await pending.shift();
+            }
+            await Promise.all(pending);
+        } catch (error) {
+            // Let the frames still in flight finish or fail, so none of them rejects unhandled
+            await Promise.allSettled(pending);
+            throw error;
+        } finally {
+            animation.close();
+        }
+
+        const blob = await encodeAnimation(frames, delays, { ...getEncodeOptions(baseSettings), loopCount: animation.loopCount });
+        return { dataUrl: URL.createObjectURL(blob), blob, width: frames[0].width, height: frames[0].height };
+    };
 
-        const processedResults: ProcessedImage[] = [];
+    /* Animated inputs, or stills swept into an animation when keyframes are set */
+    const openAnimation = async (file: File): Promise<AnimatedImage | null> => {
+        const animation = await decodeAnimation(file);
+        const stillFrames = Number(videoSettings.video_still_frames) || 0;
+        if (animation || keyframes.length === 0 || stillFrames === 0) return animation;
 
-        for (let i = 0; i < files.length; i++) {
-            const { file, type: fileType } = files[i];
-            setProgress({ current: i + 1, total: files.length, filename: file.name });
+        const fps = Number(videoSettings.video_still_fps) || DEFAULT_VIDEO_SETTINGS.video_still_fps;
+        return createStillAnimation(await loadImageData(file), stillFrames, 1000 / fps);
+    };
+
+    /* IMAGE PROCESSING */
+    const processImage = async (
+        file: File,
+        signal: AbortSignal,
+        onStart: () => void
+    ): Promise<{ dataUrl: string; blob: Blob; width: number; height: number }> => {
+        // Workers cannot rasterize SVG, so those are decoded here
+        const source = file.type === SVG_MIME_TYPE ? toFrameData(await loadImageData(file)) : file;
+        const { blob, width, height } = await getPool().run(
+            { type: "image", processorId: processor.config.id, settings, baseSettings, source },
+            { signal, onStart }
+        );
+
+        return { dataUrl: URL.createObjectURL(blob), blob, width, height };
+    };
+
+    /* Output name from the active profile's filename template */
+    const getOutputFilename = (fileIndex: number, output: { blob: Blob; width: number; height: number }, extension: string) => {
+        return formatFilename(
+            getActiveProfileSettings().filenameTemplate,
+            {
+                name: getBaseName(files[fileIndex].file.name),
+                effect: processor.config.id,
+                preset: selectedPreset ?? "custom",
+                index: fileIndex + 1,
+                total: files.length,
+                width: output.width,
+                height: output.height,
+                date: new Date(),
+                blob: output.blob,
+            },
+            extension
+        );
+    };
+
+    const updateResult = useCallback((fileIndex: number, update: Partial<ProcessedImage>) => {
+        setResults((prev) => prev.map((result) => (result.fileIndex === fileIndex ? { ...result, ...update } : result)));
+    }, []);
+
+    /* Runs the given uploads and records the outcome of each one */
+    const runBatch = useCallback(async (fileIndices: number[]) => {
+        setStep("process");
+        setIsProcessing(true);
+        setIsPaused(false);
+        setIsCancelled(false);
+
+        const controller = new AbortController();
+        const { signal } = controller;
+        abortRef.current = controller;
+        getPool().resume();
+
+        const total = fileIndices.length;
+        let completed = 0;
+        let frameQueue: Promise<unknown> = Promise.resolve();
+        setProgress({ current: 0, total, filename: files[fileIndices[0]].file.name });
+
+        // Images run concurrently in the pool, results keep the upload order
+        await Promise.all(
+            fileIndices.map(async (fileIndex) => {
+                const { file, type: fileType } = files[fileIndex];
+                const markProcessing = () => updateResult(fileIndex, { status: "processing" });
+
+                const onFrameProgress = (current: number, frames: number) => {
+                    setProgress({
+                        current: completed,
+                        total,
+                        filename: `${file.name} (frame ${current}/${frames})`,
+                    });
+                };
 
-            if (fileType === "video") {
-                // Process video frame by frame
                 try {
-                    const { dataUrl, blob } = await processVideo(file, (current, total) => {
-                        setProgress({
-                            current: i + 1,
-                            total: files.length,
-                            filename: `${file.name} (frame ${current}/${total})`,
+                    const animation = fileType === "image" ? await openAnimation(file) : null;
+
+                    if (fileType === "video") {
+                        // Videos and animations go one at a time, their frames already fill the pool
+                        const run = frameQueue.then(() => {
+                            markProcessing();
+                            return processVideo(file, signal, onFrameProgress);
                         });
-                    });
-                    processedResults.push({
-                        filename: file.name.replace(/\.[^.]+$/, ".webm"),
-                        dataUrl,
-                        type: "video",
-                        blob,
-                    });
+                        frameQueue = run.catch(() => undefined);
+                        const output = await run;
+
+                        updateResult(fileIndex, {
+                            status: "done",
+                            success: true,
+                            filename: await getOutputFilename(fileIndex, output, ".webm"),
+                            dataUrl: output.dataUrl,
+                            blob: output.blob,
+                        });
+                    } else if (animation) {
+                        const run = frameQueue.then(() => {
+                            markProcessing();
+                            return processAnimation(animation, signal, onFrameProgress);
+                        });
+                        frameQueue = run.catch(() => undefined);
+                        const output = await run;
+
+                        updateResult(fileIndex, {
+                            status: "done",
+                            success: true,
+                            filename: await getOutputFilename(fileIndex, output, getFileExtension(output.blob.type)),
+                            dataUrl: output.dataUrl,
+                            blob: output.blob,
+                        });
+                    } else {
+                        const output = await processImage(file, signal, markProcessing);
+
+                        updateResult(fileIndex, {
+                            status: "done",
+                            success: true,
+                            filename: await getOutputFilename(fileIndex, output, getFileExtension(output.blob.type)),
+                            dataUrl: output.dataUrl,
+                            blob: output.blob,
+                        });
+                    }
                 } catch (error) {
-                    console.error("Video processing error:", error);
-                }
-            } else {
-                // Process image
-                const imageData = await loadImageData(file);
-                const originalWidth = imageData.width;
-                const originalHeight = imageData.height;
-
-                const processed = await processor.process(imageData, settings);
-                let finalImage = applyBaseSettings(imageData, processed, baseSettings);
-
-                // Scale to original resolution if requested
-                if (baseSettings.keep_original_resolution &&
-                    (finalImage.width !== originalWidth || finalImage.height !== originalHeight)) {
-                    finalImage = scaleImageData(finalImage, originalWidth, originalHeight);
+                    // Cancelled files count as failed so they can be retried
+                    updateResult(fileIndex, {
+                        status: "failed",
+                        success: false,
+                        error: signal.aborted ? "Cancelled" : error instanceof Error ? error.message : String(error),
+                    });
                 }
 
-                const dataUrl = imageDataToDataUrl(finalImage);
+                setProgress({ current: ++completed, total, filename: file.name });
+            })
+        );
 
-                processedResults.push({
-                    filename: file.name.replace(/\.[^.]+$/, ".png"),
-                    dataUrl,
-                    type: "image",
-                });
-            }
-        }
-
-        setResults(processedResults);
+        abortRef.current = null;
+        setIsCancelled(signal.aborted);
         setIsProcessing(false);
-    }, [files, processor, settings, baseSettings]);
+    }, [files, processor, settings, baseSettings, videoSettings, keyframes, selectedPreset, getPool, updateResult]);
+
+    const handleProcess = useCallback(() => {
+        if (files.length === 0) return;
+        setResults(
+            files.map(({ file, type }, fileIndex) => ({ fileIndex, filename: file.name, type, status: "pending", success: false, dataUrl: "" }))
+        );
+        runBatch(files.map((_, fileIndex) => fileIndex));
+    }, [files, runBatch]);
+
+    const handleRetryFailed = useCallback(() => {
+        const failed = results.filter((result) => result.status === "failed");
+        if (failed.length === 0) return;
+
+        setResults((prev) =>
+            prev.map((result) => (result.status === "failed" ? { ...result, status: "pending", error: undefined } : result))
+        );
+        runBatch(failed.map((result) => result.fileIndex));
+    }, [results, runBatch]);
+
+    const handleCancel = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
+    const handlePauseToggle = useCallback(() => {
+        const pool = getPool();
+        if (pool.isPaused) pool.resume();
+        else pool.pause();
+        setIsPaused(pool.isPaused);
+    }, [getPool]);
 
     const handleDownload = useCallback((result: ProcessedImage) => {
         const a = document.createElement("a");
-        if (result.blob) {
-            // For video files, use blob URL
-            a.href = URL.createObjectURL(result.blob);
-        } else {
-            a.href = result.dataUrl;
-        }
-        a.download = `processed_${result.filename}`;
+        // Every result is already an object URL, a new one per click would leak
+        a.href = result.dataUrl;
+        // Template folders only apply inside ZIP archives
+        a.download = result.filename.replace(/\//g, "_");
         a.click();
     }, []);
 
-    const handleDownloadAll = useCallback(() => {
-        results.forEach(handleDownload);
-    }, [results, handleDownload]);
+    /* DOWNLOAD ALL AS ZIP */
+    const handleDownloadAll = useCallback(async (includeManifest: boolean) => {
+        const done = results.filter((result): result is ProcessedImage & { blob: Blob } => result.status === "done" && !!result.blob);
+        const usedPaths = new Set<string>();
+
+        // Folder uploads keep their structure inside the archive
+        const entries: ZipEntry[] = done.map((result) => {
+            const folder = files[result.fileIndex]?.path?.replace(/[^/]*$/, "") ?? "";
+            return { path: uniqueZipPath(`${folder}${result.filename}`, usedPaths), data: result.blob };
+        });
+
+        if (includeManifest) {
+            const manifest = {
+                effect: { id: processor.config.id, name: processor.config.name },
+                settings,
+                baseSettings,
+                ...(keyframes.length > 0 && { keyframes }),
+                createdAt: new Date().toISOString(),
+                files: done.map((result, index) => ({
+                    source: files[result.fileIndex]?.path ?? files[result.fileIndex]?.file.name,
+                    output: entries[index].path,
+                })),
+            };
+            entries.push({
+                path: uniqueZipPath("manifest.json", usedPaths),
+                data: new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }),
+            });
+        }
+
+        await downloadZip(entries, `processed_${processor.config.id}.zip`);
+    }, [results, files, processor, settings, baseSettings, keyframes]);
 
     // Get preview settings (hovered preset or current settings)
-    const previewSettings = hoveredPreset ? hoveredPreset.settings : settings;
+    // Memoized so unrelated page updates do not restart the preview render
+    const animatedSettings = useMemo(
+        () => applyKeyframes(settings, keyframes, processor.settings, keyframePreview),
+        [settings, keyframes, processor, keyframePreview]
+    );
+    const previewSettings = hoveredPreset ? hoveredPreset.settings : animatedSettings;
     const previewBaseSettings = hoveredPreset?.baseSettings
         ? { ...getDefaultBaseSettings(), ...hoveredPreset.baseSettings }
         : baseSettings;
 
+    // Uploads can be tuned against once the user goes back to the settings
+    const previewFiles = useMemo(() => files.filter(({ type }) => type === "image"), [files]);
+    const previewFileIndex = previewFiles.findIndex(({ preview }) => preview === previewSource);
+    const previewFile = previewFileIndex >= 0 ? previewFiles[previewFileIndex] : null;
+
+    /* Steps through the uploads, with the profile image before the first one */
+    const cyclePreviewSource = (direction: 1 | -1) => {
+        const count = previewFiles.length + 1;
+        const next = (previewFileIndex + 1 + direction + count) % count;
+        setPreviewSource(next === 0 ? null : previewFiles[next - 1].preview);
+    };
+
     return (
         <main className="effect-page">
             {/* Header */}
@@ -477,58 +818,47 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                             </button>
                             {baseSettingsExpanded && (
                                 <div className="settings-list">
-                                    {BASE_SETTINGS_DEFINITIONS.map((setting: SettingDefinition) => (
-                                        <div key={setting.id} className="setting-item">
-                                            <label className="setting-item__label" htmlFor={setting.id}>
-                                                {setting.label}
-                                            </label>
-
-                                            {setting.type === "range" && (
-                                                <div className="setting-item__range">
-                                                    <input
-                                                        type="range"
-                                                        id={setting.id}
-                                                        min={setting.min}
-                                                        max={setting.max}
-                                                        step={setting.step}
-                                                        value={baseSettings[setting.id] as number}
-                                                        onChange={(e) => handleBaseSettingChange(setting.id, Number(e.target.value))}
-                                                    />
-                                                    <input
-                                                        type="number"
-                                                        className="setting-item__number"
-                                                        min={setting.min}
-                                                        max={setting.max}
-                                                        step={setting.step}
-                                                        value={baseSettings[setting.id] as number}
-                                                        onChange={(e) => {
-                                                            const val = Number(e.target.value);
-                                                            const min = setting.min ?? 0;
-                                                            const max = setting.max ?? 100;
-                                                            const clamped = Math.min(max, Math.max(min, val));
-                                                            handleBaseSettingChange(setting.id, clamped);
-                                                        }}
-                                                    />
-                                                </div>
-                                            )}
-
-                                            {setting.type === "checkbox" && (
-                                                <label className="setting-item__checkbox">
-                                                    <input
-                                                        type="checkbox"
-                                                        id={setting.id}
-                                                        checked={baseSettings[setting.id] as boolean}
-                                                        onChange={(e) => handleBaseSettingChange(setting.id, e.target.checked)}
-                                                    />
-                                                    <span className="setting-item__checkbox-label">{setting.description}</span>
-                                                </label>
-                                            )}
-                                        </div>
+                                    {processor.getBaseSettingDefinitions().filter((setting, _, definitions) => isSettingVisible(setting, baseSettings, definitions)).map((setting: SettingDefinition) => (
+                                        <SettingField
+                                            key={setting.id}
+                                            setting={setting}
+                                            value={baseSettings[setting.id]}
+                                            onChange={(value) => handleBaseSettingChange(setting.id, value)}
+                                        />
                                     ))}
                                 </div>
                             )}
                         </section>
 
+                        {/* Video Settings Section (Collapsible, video-capable effects only) */}
+                        {processor.config.mp4support && (
+                            <section className={`config-section config-section--collapsible ${videoSettingsExpanded ? "config-section--expanded" : ""}`}>
+                                <button
+                                    type="button"
+                                    className="config-section__header"
+                                    onClick={() => setVideoSettingsExpanded(!videoSettingsExpanded)}
+                                >
+                                    <h2 className="config-section__title">Video</h2>
+                                    <span className="config-section__toggle">
+                                        {videoSettingsExpanded ? "−" : "+"}
+                                    </span>
+                                </button>
+                                {videoSettingsExpanded && (
+                                    <div className="settings-list">
+                                        {VIDEO_SETTINGS_DEFINITIONS.map((setting) => (
+                                            <SettingField
+                                                key={setting.id}
+                                                setting={setting}
+                                                value={videoSettings[setting.id]}
+                                                onChange={(value) => handleVideoSettingChange(setting.id, value)}
+                                            />
+                                        ))}
+                                        <VideoFramePicker onChange={setPreviewFrameUrl} />
+                                    </div>
+                                )}
+                            </section>
+                        )}
+
                         {/* Settings Section */}
                         <section className="config-section">
                             <h2 className="config-section__title">
@@ -536,65 +866,62 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                                 {selectedPreset && <span className="config-section__badge">Preset</span>}
                             </h2>
                             <div className="settings-list">
-                                {processor.settings.map((setting) => {
-                                    const isDisabled = setting.id === "inputResolution" && baseSettings.keep_original_resolution;
-                                    return (
-                                        <div key={setting.id} className={`setting-item ${isDisabled ? "setting-item--disabled" : ""}`}>
-                                            <label className="setting-item__label" htmlFor={setting.id}>
-                                                {setting.label}
-                                                {isDisabled && <span className="setting-item__disabled-hint">(using original)</span>}
-                                            </label>
-
-                                            {setting.type === "range" && (
-                                                <div className="setting-item__range">
-                                                    <input
-                                                        type="range"
-                                                        id={setting.id}
-                                                        min={setting.min}
-                                                        max={setting.max}
-                                                        step={setting.step}
-                                                        value={settings[setting.id] as number}
-                                                        onChange={(e) => handleSettingChange(setting.id, Number(e.target.value))}
-                                                        disabled={isDisabled}
-                                                    />
-                                                    <input
-                                                        type="number"
-                                                        className="setting-item__number"
-                                                        min={setting.min}
-                                                        max={setting.max}
-                                                        step={setting.step}
-                                                        value={settings[setting.id] as number}
-                                                        onChange={(e) => {
-                                                            const val = Number(e.target.value);
-                                                            const min = setting.min ?? 0;
-                                                            const max = setting.max ?? 100;
-                                                            const clamped = Math.min(max, Math.max(min, val));
-                                                            handleSettingChange(setting.id, clamped);
-                                                        }}
-                                                        disabled={isDisabled}
-                                                    />
-                                                </div>
-                                            )}
-
-                                            {setting.type === "select" && (
-                                                <select
-                                                    id={setting.id}
-                                                    className="setting-item__select"
-                                                    value={settings[setting.id] as string}
-                                                    onChange={(e) => handleSettingChange(setting.id, e.target.value)}
-                                                >
-                                                    {setting.options?.map((option) => (
-                                                        <option key={option.value} value={option.value}>
-                                                            {option.label}
-                                                        </option>
-                                                    ))}
-                                                </select>
-                                            )}
-                                        </div>
-                                    );
-                                })}
+                                {processor.settings.filter((setting, _, definitions) => isSettingVisible(setting, settings, definitions)).map((setting) =>
+                                    setting.type === "pipeline" && processor instanceof PipelineProcessor ? (
+                                        <PipelineEditor
+                                            key={setting.id}
+                                            pipeline={processor}
+                                            steps={getPipelineSteps(settings)}
+                                            onChange={(steps) => handleSettingChange(setting.id, steps)}
+                                        />
+                                    ) : (
+                                        <SettingField
+                                            key={setting.id}
+                                            setting={setting}
+                                            value={settings[setting.id]}
+                                            onChange={(value) => handleSettingChange(setting.id, value)}
+                                            disabled={setting.id === "inputResolution" && baseSettings.keep_original_resolution}
+                                            disabledHint="(using original)"
+                                        />
+                                    )
+                                )}
                             </div>
                         </section>
+
+                        {/* Keyframes Section (Collapsible) */}
+                        <section className={`config-section config-section--collapsible ${keyframesExpanded ? "config-section--expanded" : ""}`}>
+                            <button
+                                type="button"
+                                className="config-section__header"
+                                onClick={() => setKeyframesExpanded(!keyframesExpanded)}
+                            >
+                                <h2 className="config-section__title">
+                                    Keyframes
+                                    {keyframes.length > 0 && <span className="config-section__badge">{keyframes.length}</span>}
+                                </h2>
+                                <span className="config-section__toggle">
+                                    {keyframesExpanded ? "−" : "+"}
+                                </span>
+                            </button>
+                            {keyframesExpanded && (
+                                <KeyframeEditor
+                                    definitions={processor.settings}
+                                    settings={settings}
+                                    tracks={keyframes}
+                                    onChange={setKeyframes}
+                                    previewProgress={keyframePreview}
+                                    onPreviewProgressChange={setKeyframePreview}
+                                />
+                            )}
+                        </section>
+
+                        {/* Recipes Section (effect stacks only) */}
+                        {processor instanceof PipelineProcessor && (
+                            <section className="config-section">
+                                <h2 className="config-section__title">Recipes</h2>
+                                <PipelineRecipes steps={getPipelineSteps(settings)} baseSettings={baseSettings} onLoad={handleRecipeLoad} />
+                            </section>
+                        )}
                     </div>
 
                     {/* Right: Live Preview */}
@@ -603,8 +930,35 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                             <span className="effect-page__preview-label">
                                 {hoveredPreset ? `Preview: ${hoveredPreset.name}` : "Live Preview"}
                             </span>
+                            {previewFiles.length > 0 && (
+                                <div className="effect-page__preview-source">
+                                    <button type="button" className="btn btn--text btn--sm" onClick={() => cyclePreviewSource(-1)} title="Previous file">
+                                        ‹
+                                    </button>
+                                    <span className="effect-page__preview-source-name" title={previewFile?.path ?? previewFile?.file.name}>
+                                        {previewFile ? `${previewFileIndex + 1}/${previewFiles.length} · ${previewFile.file.name}` : "Sample image"}
+                                    </span>
+                                    <button type="button" className="btn btn--text btn--sm" onClick={() => cyclePreviewSource(1)} title="Next file">
+                                        ›
+                                    </button>
+                                </div>
+                            )}
                         </div>
-                        <LivePreview processor={processor} settings={previewSettings} baseSettings={previewBaseSettings} />
+                        <LivePreview
+                            processor={processor}
+                            settings={previewSettings}
+                            baseSettings={previewBaseSettings}
+                            previewUrl={previewFile?.preview ?? previewFrameUrl ?? undefined}
+                            controls
+                        />
+                        <PreviewStrip
+                            processor={processor}
+                            settings={previewSettings}
+                            baseSettings={previewBaseSettings}
+                            files={previewFiles}
+                            selected={previewFile?.preview ?? null}
+                            onSelect={setPreviewSource}
+                        />
                     </div>
                 </div>
             )}
@@ -612,7 +966,7 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
             {step === "upload" && (
                 <div className="effect-page__full">
                     <div className="effect-page__upload-container">
-                        <WizardUpload files={files} onFilesChange={setFiles} mp4support={processor.config.mp4support} />
+                        <WizardUpload files={files} onFilesChange={setFiles} mp4support={processor.config.mp4support} videoNotes={processor.getVideoNotes()} />
                         <div className="effect-page__upload-actions">
                             <button type="button" className="btn btn--secondary" onClick={() => setStep("config")}>
                                 ← Back to Settings
@@ -635,10 +989,15 @@ export default function EffectPage({ loaderData }: Route.ComponentProps) {
                     <div className="effect-page__process-container">
                         <WizardProcess
                             isProcessing={isProcessing}
+                            isPaused={isPaused}
+                            isCancelled={isCancelled}
                             progress={progress}
                             results={results}
                             onDownload={handleDownload}
                             onDownloadAll={handleDownloadAll}
+                            onRetryFailed={handleRetryFailed}
+                            onPauseToggle={handlePauseToggle}
+                            onCancel={handleCancel}
                         />
                         {!isProcessing && (
                             <div className="effect-page__process-actions">
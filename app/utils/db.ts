@@ -99,13 +99,21 @@ class JsonDB<T> {
 // ------------------------ DB INSTANCES --------------------------
 // ================================================================
 
-import type { AppSettings, Profile, ProfileSettings } from "~/config/settings";
+import type {
+  AppSettings,
+  Profile,
+  ProfileSettings,
+  Recipe,
+  RecipeStore,
+} from "~/config/settings";
+import { DEFAULT_FILENAME_TEMPLATE } from "~/utils/filename";
 
 /* DEFAULT VALUES */
 const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
   visibleEffects: [],
   previewImageUrl:
     "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&q=80",
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
 };
 
 const DEFAULT_PROFILES: Profile[] = [
@@ -131,6 +139,9 @@ const DEFAULT_SETTINGS: AppSettings = {
 /* SETTINGS DB */
 export const settingsDb = new JsonDB<AppSettings>("settings", DEFAULT_SETTINGS);
 
+/* RECIPES DB */
+export const recipesDb = new JsonDB<RecipeStore>("recipes", { recipes: [] });
+
 // ================================================================
 // ----------------------- HELPER FUNCTIONS -----------------------
 // ================================================================
@@ -144,7 +155,8 @@ export function getActiveProfile(): Profile | undefined {
 /* GET ACTIVE PROFILE SETTINGS */
 export function getActiveProfileSettings(): ProfileSettings {
   const profile = getActiveProfile();
-  return profile?.settings || DEFAULT_PROFILE_SETTINGS;
+  // Profiles saved before a setting existed fall back to its default
+  return { ...DEFAULT_PROFILE_SETTINGS, ...profile?.settings };
 }
 
 /* UPDATE ACTIVE PROFILE SETTINGS */
@@ -228,5 +240,49 @@ export function createProfile(icon: string, name?: string): Profile {
   };
 }
 
+// ================================================================
+// ----------------------- RECIPE FUNCTIONS -----------------------
+// ================================================================
+
+/* GET RECIPES */
+export function getRecipes(): Recipe[] {
+  return recipesDb.get().recipes;
+}
+
+/* SAVE RECIPE - replaces an existing recipe with the same name */
+export function saveRecipe(
+  name: string,
+  steps: Recipe["steps"],
+  baseSettings?: Recipe["baseSettings"]
+): Recipe {
+  const existing = getRecipes().find((r) => r.name === name);
+  const recipe: Recipe = {
+    id: existing?.id || `recipe-${Date.now()}`,
+    name,
+    steps,
+    baseSettings,
+    createdAt: Date.now(),
+  };
+
+  recipesDb.update({
+    recipes: existing
+      ? getRecipes().map((r) => (r.id === existing.id ? recipe : r))
+      : [...getRecipes(), recipe],
+  });
+  return recipe;
+}
+
+/* DELETE RECIPE */
+export function deleteRecipe(recipeId: string): Recipe[] {
+  return recipesDb.update({
+    recipes: getRecipes().filter((r) => r.id !== recipeId),
+  }).recipes;
+}
+
 export { DEFAULT_PROFILE_SETTINGS, DEFAULT_SETTINGS };
-export type { AppSettings, Profile, ProfileSettings } from "~/config/settings";
+export type {
+  AppSettings,
+  Profile,
+  ProfileSettings,
+  Recipe,
+} from "~/config/settings";
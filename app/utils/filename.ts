@@ -0,0 +1,99 @@
+// ================================================================
+// ---------------------- FILENAME TEMPLATES ----------------------
+// ================================================================
+
+/**
+ * Output names are built from a template such as "{name}_{effect}".
+ * The extension always follows the output format and is appended
+ * automatically. A "/" in the template creates folders in ZIP exports.
+ */
+
+export interface FilenameContext {
+  /** Source file name without extension */
+  name: string;
+  effect: string;
+  preset: string;
+  /** 1-based position in the upload list */
+  index: number;
+  /** Number of uploaded files, used to zero-pad the index */
+  total: number;
+  width: number;
+  height: number;
+  date: Date;
+  /** Output file, hashed for {hash} */
+  blob: Blob;
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = "processed_{name}";
+
+export const FILENAME_TOKENS: { token: string; description: string }[] = [
+  { token: "{name}", description: "Original file name" },
+  { token: "{effect}", description: "Effect id" },
+  { token: "{preset}", description: 'Preset id, or "custom"' },
+  { token: "{index}", description: "Position in the upload list" },
+  { token: "{width}", description: "Output width in pixels" },
+  { token: "{height}", description: "Output height in pixels" },
+  { token: "{date}", description: "Processing date (YYYY-MM-DD)" },
+  {
+    token: "{hash}",
+    description: "First 8 hex digits of the output's SHA-256",
+  },
+];
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+/* Characters that are invalid in file names on common systems */
+const INVALID_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+const HASH_LENGTH = 8;
+
+/* SHORT CONTENT HASH */
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  )
+    .join("")
+    .slice(0, HASH_LENGTH);
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/* File name without its last extension */
+export function getBaseName(filename: string): string {
+  return filename.replace(/\.[^./]+$/, "") || filename;
+}
+
+/* APPLY TEMPLATE */
+export async function formatFilename(
+  template: string,
+  context: FilenameContext,
+  extension: string
+): Promise<string> {
+  const values: Record<string, string> = {
+    name: context.name,
+    effect: context.effect,
+    preset: context.preset,
+    index: String(context.index).padStart(String(context.total).length, "0"),
+    width: String(context.width),
+    height: String(context.height),
+    date: formatDate(context.date),
+    hash: template.includes("{hash}") ? await hashBlob(context.blob) : "",
+  };
+
+  // Unknown tokens are kept as typed so mistakes stay visible
+  const name = template
+    .replace(TOKEN_PATTERN, (match, token: string) =>
+      token in values ? values[token].replace(INVALID_CHARS, "_") : match
+    )
+    .split("/")
+    .map((segment) => segment.replace(INVALID_CHARS, "_").trim())
+    .filter(Boolean)
+    .join("/");
+
+  return `${name || context.name}${extension}`;
+}
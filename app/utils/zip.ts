@@ -0,0 +1,220 @@
+// ================================================================
+// ----------------------------- ZIP ------------------------------
+// ================================================================
+
+/**
+ * Minimal streaming ZIP writer
+ * Entries are stored uncompressed (image and video outputs are already
+ * compressed) and written one at a time, so only the current entry is
+ * held in memory while streaming to a file. Browsers without the File
+ * System Access API get a Blob, which needs the whole archive in memory.
+ * No ZIP64: archives are limited to 4 GB / 65535 entries.
+ */
+
+import { crc32 } from "~/core/crc32";
+
+export interface ZipEntry {
+  /** Path inside the archive, "/" separates folders */
+  path: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+export const ZIP_MIME_TYPE = "application/zip";
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+/* MS-DOS date/time as stored in ZIP headers */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/* Forward slashes only, no absolute or parent segments */
+export function normalizeZipPath(path: string): string {
+  return path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+/* Appends " (2)", " (3)", ... before the extension until the path is free */
+export function uniqueZipPath(path: string, used: Set<string>): string {
+  const normalized = normalizeZipPath(path) || "file";
+  let candidate = normalized;
+  const match = normalized.match(/^(.*?)(\.[^./]*)?$/);
+  const base = match?.[1] ?? normalized;
+  const extension = match?.[2] ?? "";
+
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function* zipChunks(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const entry of entries) {
+    if (++count > MAX_ENTRIES) throw new Error("Too many files for a ZIP");
+
+    const name = encoder.encode(normalizeZipPath(entry.path));
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    if (offset + data.length > MAX_UINT32) {
+      throw new Error("ZIP archive would exceed 4 GB");
+    }
+
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, ZIP_VERSION, true);
+    centralView.setUint16(6, ZIP_VERSION, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+    centralDirectory.push(central);
+
+    yield local;
+    yield data;
+    offset += local.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce(
+    (size, header) => size + header.length,
+    0
+  );
+  yield* centralDirectory;
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, count, true);
+  endView.setUint16(10, count, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  yield end;
+}
+
+/* File System Access API, not part of lib.dom yet */
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (
+      options?: SaveFilePickerOptions
+    ) => Promise<FileSystemFileHandle>;
+  }
+}
+
+/* ZIP ARCHIVE AS A STREAM (entries are read lazily) */
+export function createZipStream(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/* ZIP ARCHIVE AS A BLOB */
+export async function createZipBlob(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): Promise<Blob> {
+  const blob = await new Response(createZipStream(entries)).blob();
+  return new Blob([blob], { type: ZIP_MIME_TYPE });
+}
+
+/**
+ * Saves the archive as `filename`. Must be called from a user gesture,
+ * before any await, so the save dialog is allowed to open.
+ * Streams into the chosen file where supported, otherwise downloads a Blob.
+ */
+export async function downloadZip(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>,
+  filename: string
+): Promise<void> {
+  if (typeof window.showSaveFilePicker === "function") {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await window.showSaveFilePicker({
+        suggestedName: filename,
+        types: [
+          { description: "ZIP archive", accept: { [ZIP_MIME_TYPE]: [".zip"] } },
+        ],
+      });
+    } catch (error) {
+      // Dismissing the dialog is not an error
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      throw error;
+    }
+
+    // pipeTo closes the file when done and aborts it (discarding the partial write) on error
+    await createZipStream(entries).pipeTo(await handle.createWritable());
+    return;
+  }
+
+  const zip = await createZipBlob(entries);
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(zip);
+  a.download = filename;
+  a.click();
+
+  // Release the archive once the browser has picked up the download
+  setTimeout(() => URL.revokeObjectURL(a.href), 60_000);
+}